@@ -0,0 +1,360 @@
+/**
+ * CSS math functions (MCP Server side)
+ * Evaluates calc(), min(), max() and clamp() with operator precedence, nesting and mixed units
+ * Font-relative and absolute units become px; %, vw and vh stay symbolic for the plugin
+ */
+
+import { resolveCssLength } from '../shared/css-length';
+import type { CssLength, LinearLength } from '../shared/types';
+
+// Font sizes that em, rem, ch and ex refer to
+export interface LengthContext {
+  fontSize: number; // the element's own computed font size
+  rootFontSize: number;
+}
+
+export const DEFAULT_LENGTH_CONTEXT: LengthContext = { fontSize: 16, rootFontSize: 16 };
+
+type CalcValue =
+  | { kind: 'number'; value: number }
+  | { kind: 'length'; length: CssLength };
+
+type Token =
+  | { type: 'number'; value: number; unit: string }
+  | { type: 'function'; name: string }
+  | { type: 'ident'; name: string }
+  | { type: 'op'; value: '+' | '-' | '*' | '/' }
+  | { type: '(' | ')' | ',' };
+
+// Absolute units in px
+const ABSOLUTE_UNITS: Record<string, number> = {
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+  q: 96 / 101.6,
+};
+
+// Viewport unit variants (small/large/dynamic viewports are the same size here)
+const VIEWPORT_UNITS: Record<string, 'vw' | 'vh' | 'vmin' | 'vmax'> = {
+  vw: 'vw', svw: 'vw', lvw: 'vw', dvw: 'vw', vi: 'vw',
+  vh: 'vh', svh: 'vh', lvh: 'vh', dvh: 'vh', vb: 'vh',
+  vmin: 'vmin', svmin: 'vmin', lvmin: 'vmin', dvmin: 'vmin',
+  vmax: 'vmax', svmax: 'vmax', lvmax: 'vmax', dvmax: 'vmax',
+};
+
+const MATH_FUNCTIONS = ['calc', 'min', 'max', 'clamp'];
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+function tokenize(input: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // A sign belongs to the number when nothing that could end an operand precedes it
+  const signAllowed = () => {
+    const previous = tokens[tokens.length - 1];
+    return !previous || previous.type === 'op' || previous.type === '(' || previous.type === ',' || previous.type === 'function';
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const rest = input.slice(i);
+    const numberMatch = rest.match(/^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?(%|[a-z]+)?/i);
+    if (numberMatch && (/[\d.]/.test(char) || signAllowed())) {
+      const numeric = numberMatch[0].slice(0, numberMatch[0].length - (numberMatch[1]?.length ?? 0));
+      tokens.push({ type: 'number', value: parseFloat(numeric), unit: (numberMatch[1] ?? '').toLowerCase() });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const identMatch = rest.match(/^-?[a-z][a-z-]*/i);
+    if (identMatch) {
+      const name = identMatch[0].toLowerCase();
+      i += identMatch[0].length;
+      if (input[i] === '(') {
+        tokens.push({ type: 'function', name });
+        i++;
+      } else {
+        tokens.push({ type: 'ident', name });
+      }
+      continue;
+    }
+
+    if (char === '+' || char === '-' || char === '*' || char === '/') {
+      tokens.push({ type: 'op', value: char });
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: char });
+    } else {
+      return null;
+    }
+    i++;
+  }
+
+  return tokens;
+}
+
+function isLinear(length: CssLength): length is LinearLength {
+  return !('fn' in length);
+}
+
+// Get the px value of a length without layout-dependent terms
+export function toPixels(length: CssLength): number | null {
+  if (!isLinear(length)) return null;
+  if (length.percent || length.vw || length.vh) return null;
+  return length.px;
+}
+
+function addLengths(a: CssLength, b: CssLength): CssLength {
+  if (isLinear(a) && isLinear(b)) {
+    const sum: LinearLength = { px: a.px + b.px };
+    for (const term of ['percent', 'vw', 'vh'] as const) {
+      const value = (a[term] ?? 0) + (b[term] ?? 0);
+      if (value !== 0) sum[term] = value;
+    }
+    return sum;
+  }
+  const flatten = (length: CssLength) =>
+    !isLinear(length) && length.fn === 'sum' && (length.scale ?? 1) === 1 ? length.args : [length];
+  return { fn: 'sum', args: [...flatten(a), ...flatten(b)] };
+}
+
+function scaleLength(length: CssLength, factor: number): CssLength {
+  if (isLinear(length)) {
+    const scaled: LinearLength = { px: length.px * factor };
+    for (const term of ['percent', 'vw', 'vh'] as const) {
+      if (length[term]) scaled[term] = (length[term] as number) * factor;
+    }
+    return scaled;
+  }
+  return { ...length, scale: (length.scale ?? 1) * factor };
+}
+
+// Convert a number with a unit to a value (null for unknown units)
+function dimensionValue(value: number, unit: string, context: LengthContext): CalcValue | null {
+  if (unit === '') return { kind: 'number', value };
+  if (unit === '%') return { kind: 'length', length: { px: 0, percent: value } };
+
+  if (ABSOLUTE_UNITS[unit] !== undefined) return { kind: 'length', length: { px: value * ABSOLUTE_UNITS[unit] } };
+
+  switch (unit) {
+    case 'em':
+      return { kind: 'length', length: { px: value * context.fontSize } };
+    case 'rem':
+      return { kind: 'length', length: { px: value * context.rootFontSize } };
+    case 'ch':
+    case 'ex':
+      // Without font metrics, both are approximated as half an em
+      return { kind: 'length', length: { px: value * context.fontSize * 0.5 } };
+    case 'lh':
+      return { kind: 'length', length: { px: value * context.fontSize * 1.2 } };
+  }
+
+  const viewportUnit = VIEWPORT_UNITS[unit];
+  if (viewportUnit === 'vw' || viewportUnit === 'vh') {
+    return { kind: 'length', length: { px: 0, [viewportUnit]: value } };
+  }
+  if (viewportUnit) {
+    const fn = viewportUnit === 'vmin' ? 'min' : 'max';
+    return { kind: 'length', length: { fn, args: [{ px: 0, vw: value }, { px: 0, vh: value }] } };
+  }
+  return null;
+}
+
+// Recursive-descent parser over the token list
+class CalcParser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private context: LengthContext) {}
+
+  parse(): CalcValue | null {
+    const value = this.parseSum();
+    return value && this.position === this.tokens.length ? value : null;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private expect(type: '(' | ')' | ','): boolean {
+    if (this.peek()?.type !== type) return false;
+    this.position++;
+    return true;
+  }
+
+  private parseSum(): CalcValue | null {
+    let left = this.parseProduct();
+    while (left) {
+      const token = this.peek();
+      if (token?.type !== 'op' || (token.value !== '+' && token.value !== '-')) break;
+      this.position++;
+      const right = this.parseProduct();
+      if (!right || right.kind !== left.kind) return null;
+      const sign = token.value === '+' ? 1 : -1;
+      left = left.kind === 'number' && right.kind === 'number'
+        ? { kind: 'number', value: left.value + sign * right.value }
+        : { kind: 'length', length: addLengths((left as { length: CssLength }).length, scaleLength((right as { length: CssLength }).length, sign)) };
+    }
+    return left;
+  }
+
+  private parseProduct(): CalcValue | null {
+    let left = this.parseUnary();
+    while (left) {
+      const token = this.peek();
+      if (token?.type !== 'op' || (token.value !== '*' && token.value !== '/')) break;
+      this.position++;
+      const right = this.parseUnary();
+      if (!right) return null;
+
+      if (token.value === '*') {
+        if (left.kind === 'number' && right.kind === 'number') left = { kind: 'number', value: left.value * right.value };
+        else if (left.kind === 'number' && right.kind === 'length') left = { kind: 'length', length: scaleLength(right.length, left.value) };
+        else if (left.kind === 'length' && right.kind === 'number') left = { kind: 'length', length: scaleLength(left.length, right.value) };
+        else return null; // length * length has no CSS type
+      } else {
+        // Division is only defined by a number
+        if (right.kind !== 'number' || right.value === 0) return null;
+        left = left.kind === 'number'
+          ? { kind: 'number', value: left.value / right.value }
+          : { kind: 'length', length: scaleLength(left.length, 1 / right.value) };
+      }
+    }
+    return left;
+  }
+
+  private parseUnary(): CalcValue | null {
+    const token = this.peek();
+    if (token?.type === 'op' && (token.value === '-' || token.value === '+')) {
+      this.position++;
+      const operand = this.parseUnary();
+      if (!operand || token.value === '+') return operand;
+      return operand.kind === 'number'
+        ? { kind: 'number', value: -operand.value }
+        : { kind: 'length', length: scaleLength(operand.length, -1) };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): CalcValue | null {
+    const token = this.peek();
+    if (!token) return null;
+    this.position++;
+
+    switch (token.type) {
+      case 'number':
+        return dimensionValue(token.value, token.unit, this.context);
+      case 'ident':
+        return CONSTANTS[token.name] !== undefined ? { kind: 'number', value: CONSTANTS[token.name] } : null;
+      case '(': {
+        const inner = this.parseSum();
+        return inner && this.expect(')') ? inner : null;
+      }
+      case 'function':
+        return this.parseFunction(token.name);
+      default:
+        return null;
+    }
+  }
+
+  private parseFunction(name: string): CalcValue | null {
+    if (!MATH_FUNCTIONS.includes(name)) return null;
+
+    const args: CalcValue[] = [];
+    do {
+      const arg = this.parseSum();
+      if (!arg) return null;
+      args.push(arg);
+    } while (this.expect(','));
+    if (!this.expect(')')) return null;
+
+    if (name === 'calc') return args.length === 1 ? args[0] : null;
+    if (name === 'clamp' && args.length !== 3) return null;
+
+    // Arguments must all be numbers or all be lengths
+    if (args.every(arg => arg.kind === 'number')) {
+      const values = args.map(arg => (arg as { value: number }).value);
+      const value = name === 'min' ? Math.min(...values)
+        : name === 'max' ? Math.max(...values)
+        : Math.max(values[0], Math.min(values[1], values[2]));
+      return { kind: 'number', value };
+    }
+    if (!args.every(arg => arg.kind === 'length')) return null;
+
+    const lengths = args.map(arg => (arg as { length: CssLength }).length);
+    const pixels = lengths.map(toPixels);
+    if (pixels.every(px => px !== null)) {
+      const values = pixels as number[];
+      const px = name === 'min' ? Math.min(...values)
+        : name === 'max' ? Math.max(...values)
+        : Math.max(values[0], Math.min(values[1], values[2]));
+      return { kind: 'length', length: { px } };
+    }
+    return { kind: 'length', length: { fn: name as 'min' | 'max' | 'clamp', args: lengths } };
+  }
+}
+
+function evaluate(value: string, context: LengthContext): CalcValue | null {
+  const tokens = tokenize(value.trim());
+  if (!tokens || tokens.length === 0) return null;
+  return new CalcParser(tokens, context).parse();
+}
+
+// Parse a CSS length: a dimension, a percentage, 0, or a math function
+export function parseCssLength(value: string, context: LengthContext = DEFAULT_LENGTH_CONTEXT): CssLength | null {
+  const result = evaluate(value, context);
+  if (!result) return null;
+  if (result.kind === 'length') return result.length;
+  // Unitless numbers are only lengths when zero; plain px numbers are accepted for leniency
+  return { px: result.value };
+}
+
+// Parse a plain number, including math functions: calc(1 / 3), clamp(0, 1.5, 2)
+export function parseCssNumber(value: string): number | null {
+  const result = evaluate(value, DEFAULT_LENGTH_CONTEXT);
+  return result?.kind === 'number' ? result.value : null;
+}
+
+// Font-size keywords (CSS absolute-size scale with medium = 16px)
+const FONT_SIZE_KEYWORDS: Record<string, number> = {
+  'xx-small': 9,
+  'x-small': 10,
+  'small': 13,
+  'medium': 16,
+  'large': 18,
+  'x-large': 24,
+  'xx-large': 32,
+  'xxx-large': 48,
+};
+
+// Compute a font-size value: em and % refer to the parent's font size
+// Viewport units use the given viewport, since descendants need a concrete size for em
+export function computeFontSize(
+  value: string,
+  parentFontSize: number,
+  rootFontSize: number,
+  viewport: { width: number; height: number }
+): number | null {
+  const keyword = value.trim().toLowerCase();
+  if (FONT_SIZE_KEYWORDS[keyword] !== undefined) return FONT_SIZE_KEYWORDS[keyword];
+  if (keyword === 'smaller') return parentFontSize / 1.2;
+  if (keyword === 'larger') return parentFontSize * 1.2;
+
+  const length = parseCssLength(value, { fontSize: parentFontSize, rootFontSize });
+  if (!length) return null;
+  return resolveCssLength(length, {
+    percentBase: parentFontSize,
+    viewportWidth: viewport.width,
+    viewportHeight: viewport.height,
+  });
+}
@@ -0,0 +1,593 @@
+/**
+ * CSS cascade for the HTML parser (MCP Server side)
+ * Parses <style> blocks with css-tree, matches selectors against node-html-parser
+ * elements and merges matching rules with the inline style attribute
+ */
+
+import * as csstree from 'css-tree';
+import { HTMLElement } from 'node-html-parser';
+import { matchesMediaQuery } from './media-queries';
+import type { MediaEnvironment } from './media-queries';
+
+export interface CssDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+// Specificity as [ids, classes/attributes/pseudo-classes, types/pseudo-elements]
+type Specificity = [number, number, number];
+
+interface CssRule {
+  selector: csstree.Selector;
+  specificity: Specificity;
+  declarations: CssDeclaration[];
+  // Source order across all <style> blocks (later rules win ties)
+  order: number;
+  // Preludes of the @media blocks the rule is nested in (all must match)
+  media: string[];
+  // Interaction pseudo-classes (:hover, :disabled...) anywhere in the selector
+  statePseudoClasses: string[];
+}
+
+export interface Stylesheet {
+  rules: CssRule[];
+}
+
+// Declaration candidate competing in the cascade for one element
+interface CascadeEntry {
+  declaration: CssDeclaration;
+  inline: boolean;
+  specificity: Specificity;
+  order: number;
+}
+
+// Elements that never produce Figma nodes but may carry stylesheet data
+// (<br> and <wbr> only affect the text around them)
+export const NON_RENDERED_TAGS = ['head', 'style', 'script', 'meta', 'link', 'title', 'template', 'noscript', 'br', 'wbr'];
+
+// User agent styles for text formatting elements (applied before all author styles)
+const USER_AGENT_STYLES: Record<string, CssDeclaration[]> = {
+  b: [{ property: 'font-weight', value: 'bolder', important: false }],
+  strong: [{ property: 'font-weight', value: 'bolder', important: false }],
+  em: [{ property: 'font-style', value: 'italic', important: false }],
+  i: [{ property: 'font-style', value: 'italic', important: false }],
+  cite: [{ property: 'font-style', value: 'italic', important: false }],
+  var: [{ property: 'font-style', value: 'italic', important: false }],
+  dfn: [{ property: 'font-style', value: 'italic', important: false }],
+  u: [{ property: 'text-decoration', value: 'underline', important: false }],
+  ins: [{ property: 'text-decoration', value: 'underline', important: false }],
+  s: [{ property: 'text-decoration', value: 'line-through', important: false }],
+  del: [{ property: 'text-decoration', value: 'line-through', important: false }],
+  strike: [{ property: 'text-decoration', value: 'line-through', important: false }],
+  small: [{ property: 'font-size', value: 'smaller', important: false }],
+  code: [{ property: 'font-family', value: 'monospace', important: false }],
+  kbd: [{ property: 'font-family', value: 'monospace', important: false }],
+  samp: [{ property: 'font-family', value: 'monospace', important: false }],
+  pre: [
+    { property: 'font-family', value: 'monospace', important: false },
+    { property: 'white-space', value: 'pre', important: false },
+  ],
+  address: [{ property: 'font-style', value: 'italic', important: false }],
+};
+
+// Unvisited link colors (only for <a> with an href)
+const LINK_STYLES: CssDeclaration[] = [
+  { property: 'color', value: 'linktext', important: false },
+  { property: 'text-decoration', value: 'underline', important: false },
+];
+
+// Pseudo-classes that describe interaction state and never match a static render
+const DYNAMIC_PSEUDO_CLASSES = ['hover', 'focus', 'focus-visible', 'focus-within', 'active', 'visited', 'target'];
+
+// Pseudo-classes an InteractionState can turn on
+const STATE_PSEUDO_CLASSES = [...DYNAMIC_PSEUDO_CLASSES, 'disabled'];
+
+// State pseudo-classes that also match every ancestor of the element in that state
+const PROPAGATING_PSEUDO_CLASSES = ['hover', 'active', 'focus-within'];
+
+// An element rendered in an interaction state (for state variants): the pseudo-classes it matches
+export interface InteractionState {
+  element: HTMLElement;
+  pseudoClasses: string[];
+}
+
+// State of the cascade in progress (null for the static render)
+let activeState: InteractionState | null = null;
+
+function withState<T>(state: InteractionState | null, callback: () => T): T {
+  const previous = activeState;
+  activeState = state;
+  try {
+    return callback();
+  } finally {
+    activeState = previous;
+  }
+}
+
+// Check whether an element is in a state pseudo-class of the active state
+function isInState(element: HTMLElement, name: string): boolean {
+  if (!activeState || !activeState.pseudoClasses.includes(name)) return false;
+  if (element === activeState.element) return true;
+  if (!PROPAGATING_PSEUDO_CLASSES.includes(name)) return false;
+
+  let ancestor = getParentElement(activeState.element);
+  while (ancestor) {
+    if (ancestor === element) return true;
+    ancestor = getParentElement(ancestor);
+  }
+  return false;
+}
+
+// Names of the state pseudo-classes used anywhere in a selector (including :not()/:is() arguments)
+function collectStatePseudoClasses(selector: csstree.Selector): string[] {
+  const names: string[] = [];
+  csstree.walk(selector, {
+    visit: 'PseudoClassSelector',
+    enter: node => {
+      const name = node.name.toLowerCase();
+      if (STATE_PSEUDO_CLASSES.includes(name) && !names.includes(name)) names.push(name);
+    },
+  });
+  return names;
+}
+
+// Read declarations from a css-tree Block or DeclarationList node
+function readDeclarations(block: csstree.Block | csstree.DeclarationList): CssDeclaration[] {
+  const declarations: CssDeclaration[] = [];
+  block.children.forEach(node => {
+    if (node.type !== 'Declaration') return;
+    const value = csstree.generate(node.value).trim();
+    if (!value) return;
+    declarations.push({
+      // Custom properties are case-sensitive, everything else is not
+      property: node.property.startsWith('--') ? node.property : node.property.toLowerCase(),
+      value,
+      important: Boolean(node.important),
+    });
+  });
+  return declarations;
+}
+
+// Specificity of the most specific selector in a list
+function maxSpecificity(list: csstree.SelectorList): Specificity {
+  let max: Specificity = [0, 0, 0];
+  list.children.forEach(child => {
+    if (child.type !== 'Selector') return;
+    const childSpecificity = calculateSpecificity(child);
+    if (compareSpecificity(childSpecificity, max) > 0) max = childSpecificity;
+  });
+  return max;
+}
+
+// Calculate selector specificity (selectors level 4 rules for :is/:not/:where/:nth-child(of S))
+function calculateSpecificity(selector: csstree.Selector): Specificity {
+  const result: Specificity = [0, 0, 0];
+
+  selector.children.forEach(node => {
+    switch (node.type) {
+      case 'IdSelector':
+        result[0]++;
+        break;
+      case 'ClassSelector':
+      case 'AttributeSelector':
+        result[1]++;
+        break;
+      case 'TypeSelector':
+        if (node.name !== '*') result[2]++;
+        break;
+      case 'PseudoElementSelector':
+        result[2]++;
+        break;
+      case 'PseudoClassSelector': {
+        const name = node.name.toLowerCase();
+        if (name === 'where') break;
+        const argument = getSelectorListArgument(node);
+        if ((name === 'is' || name === 'not' || name === 'has' || name === 'matches') && argument) {
+          // Takes the specificity of its most specific argument
+          const max = maxSpecificity(argument);
+          result[0] += max[0];
+          result[1] += max[1];
+          result[2] += max[2];
+          break;
+        }
+        result[1]++;
+        // :nth-child(An+B of S) adds the most specific selector in S
+        const nth = name === 'nth-child' || name === 'nth-last-child' ? getNthArgument(node) : null;
+        if (nth?.selector) {
+          const max = maxSpecificity(nth.selector);
+          result[0] += max[0];
+          result[1] += max[1];
+          result[2] += max[2];
+        }
+        break;
+      }
+    }
+  });
+
+  return result;
+}
+
+function compareSpecificity(a: Specificity, b: Specificity): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+// Get the SelectorList argument of :not(), :is(), :where() etc.
+function getSelectorListArgument(node: csstree.PseudoClassSelector): csstree.SelectorList | null {
+  if (!node.children) return null;
+  let list: csstree.SelectorList | null = null;
+  node.children.forEach(child => {
+    if (child.type === 'SelectorList') list = child;
+    else if (child.type === 'Nth' && child.selector) list = child.selector;
+  });
+  return list;
+}
+
+// Get the Nth argument of :nth-child() and friends
+function getNthArgument(node: csstree.PseudoClassSelector): csstree.Nth | null {
+  if (!node.children) return null;
+  let nth: csstree.Nth | null = null;
+  node.children.forEach(child => {
+    if (child.type === 'Nth') nth = child;
+  });
+  return nth;
+}
+
+// Check whether a 1-based index satisfies an An+B expression
+function matchesNth(nth: csstree.Nth, index: number): boolean {
+  let a = 0;
+  let b = 0;
+  if (nth.nth.type === 'Identifier') {
+    const keyword = nth.nth.name.toLowerCase();
+    if (keyword === 'odd') { a = 2; b = 1; }
+    else if (keyword === 'even') { a = 2; b = 0; }
+    else return false;
+  } else {
+    a = nth.nth.a !== null ? parseInt(nth.nth.a, 10) : 0;
+    b = nth.nth.b !== null ? parseInt(nth.nth.b, 10) : 0;
+  }
+
+  if (a === 0) return index === b;
+  const n = (index - b) / a;
+  return Number.isInteger(n) && n >= 0;
+}
+
+function getTagName(element: HTMLElement): string {
+  return (element.rawTagName || '').toLowerCase();
+}
+
+// Parent element, or null when the parent is the parse root
+function getParentElement(element: HTMLElement): HTMLElement | null {
+  const parent = element.parentNode;
+  if (!parent || !parent.rawTagName) return null;
+  return parent;
+}
+
+function getSiblingElements(element: HTMLElement): HTMLElement[] {
+  const parent = element.parentNode;
+  if (!parent) return [element];
+  return parent.childNodes.filter((node): node is HTMLElement => node instanceof HTMLElement);
+}
+
+function matchesAttribute(element: HTMLElement, node: csstree.AttributeSelector): boolean {
+  const actual = element.getAttribute(node.name.name);
+  if (actual === undefined) return false;
+  if (!node.matcher || !node.value) return true;
+
+  const rawExpected = node.value.type === 'String' ? node.value.value : node.value.name;
+  const caseInsensitive = node.flags?.toLowerCase() === 'i';
+  const value = caseInsensitive ? actual.toLowerCase() : actual;
+  const expected = caseInsensitive ? rawExpected.toLowerCase() : rawExpected;
+
+  switch (node.matcher) {
+    case '=': return value === expected;
+    case '~=': return value.split(/\s+/).includes(expected);
+    case '|=': return value === expected || value.startsWith(`${expected}-`);
+    case '^=': return expected !== '' && value.startsWith(expected);
+    case '$=': return expected !== '' && value.endsWith(expected);
+    case '*=': return expected !== '' && value.includes(expected);
+    default: return false;
+  }
+}
+
+function matchesPseudoClass(element: HTMLElement, node: csstree.PseudoClassSelector): boolean {
+  const name = node.name.toLowerCase();
+
+  if (isInState(element, name)) return true;
+  if (DYNAMIC_PSEUDO_CLASSES.includes(name)) return false;
+
+  switch (name) {
+    case 'root':
+      // In HTML fragments, top-level elements stand in for the document root
+      return getTagName(element) === 'html' || getParentElement(element) === null;
+    case 'not': {
+      const argument = getSelectorListArgument(node);
+      return argument ? !matchesSelectorList(element, argument) : true;
+    }
+    case 'is':
+    case 'where':
+    case 'matches': {
+      const argument = getSelectorListArgument(node);
+      return argument ? matchesSelectorList(element, argument) : false;
+    }
+    case 'empty':
+      return element.childNodes.every(child => !(child instanceof HTMLElement) && !child.text.trim());
+    case 'disabled':
+      return element.getAttribute('disabled') !== undefined;
+    case 'enabled':
+      return ['button', 'input', 'select', 'textarea'].includes(getTagName(element)) &&
+        element.getAttribute('disabled') === undefined && !isInState(element, 'disabled');
+    case 'checked':
+      return element.getAttribute('checked') !== undefined || element.getAttribute('selected') !== undefined;
+  }
+
+  const siblings = getSiblingElements(element);
+  const sameType = siblings.filter(sibling => getTagName(sibling) === getTagName(element));
+  const index = siblings.indexOf(element) + 1;
+  const typeIndex = sameType.indexOf(element) + 1;
+
+  switch (name) {
+    case 'first-child': return index === 1;
+    case 'last-child': return index === siblings.length;
+    case 'only-child': return siblings.length === 1;
+    case 'first-of-type': return typeIndex === 1;
+    case 'last-of-type': return typeIndex === sameType.length;
+    case 'only-of-type': return sameType.length === 1;
+    case 'nth-child':
+    case 'nth-last-child': {
+      const nth = getNthArgument(node);
+      if (!nth) return false;
+      // :nth-child(An+B of S) counts only siblings matching S
+      const pool = nth.selector ? siblings.filter(sibling => matchesSelectorList(sibling, nth.selector!)) : siblings;
+      const position = pool.indexOf(element);
+      if (position === -1) return false;
+      return matchesNth(nth, name === 'nth-child' ? position + 1 : pool.length - position);
+    }
+    case 'nth-of-type':
+    case 'nth-last-of-type': {
+      const nth = getNthArgument(node);
+      if (!nth) return false;
+      return matchesNth(nth, name === 'nth-of-type' ? typeIndex : sameType.length - typeIndex + 1);
+    }
+  }
+
+  // Unknown pseudo-classes never match
+  return false;
+}
+
+// Match a compound selector (no combinators) against a single element
+function matchesCompound(element: HTMLElement, compound: csstree.CssNode[]): boolean {
+  for (const node of compound) {
+    switch (node.type) {
+      case 'TypeSelector':
+        if (node.name !== '*' && node.name.toLowerCase() !== getTagName(element)) return false;
+        break;
+      case 'IdSelector':
+        if (element.getAttribute('id') !== node.name) return false;
+        break;
+      case 'ClassSelector': {
+        const classes = (element.getAttribute('class') || '').split(/\s+/);
+        if (!classes.includes(node.name)) return false;
+        break;
+      }
+      case 'AttributeSelector':
+        if (!matchesAttribute(element, node)) return false;
+        break;
+      case 'PseudoClassSelector':
+        if (!matchesPseudoClass(element, node)) return false;
+        break;
+      case 'PseudoElementSelector':
+        // ::before/::after etc. have no element to render
+        return false;
+      default:
+        return false;
+    }
+  }
+  return true;
+}
+
+// Split a selector into compounds and the combinators between them
+function splitSelector(selector: csstree.Selector): { compounds: csstree.CssNode[][]; combinators: string[] } {
+  const compounds: csstree.CssNode[][] = [[]];
+  const combinators: string[] = [];
+  selector.children.forEach(node => {
+    if (node.type === 'Combinator') {
+      combinators.push(node.name.trim() || ' ');
+      compounds.push([]);
+    } else {
+      compounds[compounds.length - 1].push(node);
+    }
+  });
+  return { compounds, combinators };
+}
+
+// Match compounds right-to-left, backtracking over ancestors and siblings
+function matchesFrom(element: HTMLElement, compounds: csstree.CssNode[][], combinators: string[], index: number): boolean {
+  if (!matchesCompound(element, compounds[index])) return false;
+  if (index === 0) return true;
+
+  const combinator = combinators[index - 1];
+
+  if (combinator === '>') {
+    const parent = getParentElement(element);
+    return parent !== null && matchesFrom(parent, compounds, combinators, index - 1);
+  }
+
+  if (combinator === '+' || combinator === '~') {
+    const siblings = getSiblingElements(element);
+    const position = siblings.indexOf(element);
+    if (combinator === '+') {
+      return position > 0 && matchesFrom(siblings[position - 1], compounds, combinators, index - 1);
+    }
+    for (let i = position - 1; i >= 0; i--) {
+      if (matchesFrom(siblings[i], compounds, combinators, index - 1)) return true;
+    }
+    return false;
+  }
+
+  // Descendant combinator
+  let ancestor = getParentElement(element);
+  while (ancestor) {
+    if (matchesFrom(ancestor, compounds, combinators, index - 1)) return true;
+    ancestor = getParentElement(ancestor);
+  }
+  return false;
+}
+
+function matchesSelector(element: HTMLElement, selector: csstree.Selector): boolean {
+  const { compounds, combinators } = splitSelector(selector);
+  return matchesFrom(element, compounds, combinators, compounds.length - 1);
+}
+
+function matchesSelectorList(element: HTMLElement, list: csstree.SelectorList): boolean {
+  let matched = false;
+  list.children.forEach(child => {
+    if (!matched && child.type === 'Selector' && matchesSelector(element, child)) matched = true;
+  });
+  return matched;
+}
+
+// Collect rules from a block, descending into conditional group rules
+function collectRules(block: csstree.StyleSheet | csstree.Block, stylesheet: Stylesheet, media: string[]): void {
+  block.children.forEach(node => {
+    if (node.type === 'Rule') {
+      if (node.prelude.type !== 'SelectorList') return;
+      const declarations = readDeclarations(node.block);
+      if (declarations.length === 0) return;
+      const order = stylesheet.rules.length;
+      node.prelude.children.forEach(selector => {
+        if (selector.type !== 'Selector') return;
+        stylesheet.rules.push({
+          selector,
+          specificity: calculateSpecificity(selector),
+          declarations,
+          order,
+          media,
+          statePseudoClasses: collectStatePseudoClasses(selector),
+        });
+      });
+    } else if (node.type === 'Atrule' && node.block) {
+      const name = node.name.toLowerCase();
+      const prelude = node.prelude ? csstree.generate(node.prelude).trim().toLowerCase() : '';
+      // @supports and @layer contents apply as-is; @media is evaluated per viewport in the cascade
+      if (name === 'supports' || name === 'layer') {
+        collectRules(node.block, stylesheet, media);
+      } else if (name === 'media') {
+        collectRules(node.block, stylesheet, prelude ? [...media, prelude] : media);
+      }
+    }
+  });
+}
+
+// Parse CSS source text into a stylesheet (appends to an existing one to keep source order)
+export function parseStylesheet(css: string, stylesheet: Stylesheet = { rules: [] }): Stylesheet {
+  try {
+    const ast = csstree.parse(css, {
+      parseValue: false,
+      parseAtrulePrelude: false,
+      parseCustomProperty: false,
+    });
+    if (ast.type === 'StyleSheet') {
+      collectRules(ast, stylesheet, []);
+    }
+  } catch (error) {
+    console.warn('Failed to parse stylesheet:', error instanceof Error ? error.message : '');
+  }
+  return stylesheet;
+}
+
+// Collect every <style> block in the document, in source order
+export function collectStylesheet(root: HTMLElement): Stylesheet {
+  const stylesheet: Stylesheet = { rules: [] };
+  for (const styleElement of root.querySelectorAll('style')) {
+    parseStylesheet(styleElement.textContent, stylesheet);
+  }
+  return stylesheet;
+}
+
+// Parse a style attribute into declarations
+export function parseStyleAttribute(styleStr: string): CssDeclaration[] {
+  if (!styleStr.trim()) return [];
+  try {
+    const ast = csstree.parse(styleStr, {
+      context: 'declarationList',
+      parseValue: false,
+      parseCustomProperty: false,
+    });
+    return ast.type === 'DeclarationList' ? readDeclarations(ast) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Resolve the cascade for an element: user agent styles, matching rules plus inline style,
+// ordered so that applying the declarations in sequence leaves the winning value for each property.
+// Rules inside @media only take part when their queries match the environment, and
+// :hover/:focus/:active/:disabled only match for the element in the given interaction state.
+// Precedence: !important > inline > specificity > source order
+export function cascadeDeclarations(
+  element: HTMLElement,
+  stylesheet: Stylesheet,
+  environment: MediaEnvironment,
+  state: InteractionState | null = null
+): CssDeclaration[] {
+  const entries: CascadeEntry[] = [];
+
+  withState(state, () => {
+    for (const rule of stylesheet.rules) {
+      if (!rule.media.every(prelude => matchesMediaQuery(prelude, environment))) continue;
+      if (!matchesSelector(element, rule.selector)) continue;
+      for (const declaration of rule.declarations) {
+        entries.push({ declaration, inline: false, specificity: rule.specificity, order: rule.order });
+      }
+    }
+  });
+
+  const inlineDeclarations = parseStyleAttribute(element.getAttribute('style') || '');
+  for (const declaration of inlineDeclarations) {
+    entries.push({ declaration, inline: true, specificity: [0, 0, 0], order: Number.MAX_SAFE_INTEGER });
+  }
+
+  // Array.prototype.sort is stable, so declarations within one rule keep their order
+  entries.sort((a, b) =>
+    Number(a.declaration.important) - Number(b.declaration.important) ||
+    Number(a.inline) - Number(b.inline) ||
+    compareSpecificity(a.specificity, b.specificity) ||
+    a.order - b.order
+  );
+
+  return [...getUserAgentDeclarations(element), ...entries.map(entry => entry.declaration)];
+}
+
+// Check whether any rule using the state's pseudo-classes matches the state's element
+// or one of its descendants once the state is active
+export function hasStateRules(stylesheet: Stylesheet, environment: MediaEnvironment, state: InteractionState): boolean {
+  const rules = stylesheet.rules.filter(rule =>
+    rule.statePseudoClasses.some(name => state.pseudoClasses.includes(name)) &&
+    rule.media.every(prelude => matchesMediaQuery(prelude, environment))
+  );
+  if (rules.length === 0) return false;
+
+  const subtree = [state.element, ...state.element.querySelectorAll('*')];
+  return withState(state, () =>
+    rules.some(rule => subtree.some(element => matchesSelector(element, rule.selector)))
+  );
+}
+
+// User agent declarations come first so any author declaration overrides them
+function getUserAgentDeclarations(element: HTMLElement): CssDeclaration[] {
+  const tagName = element.tagName?.toLowerCase();
+  if (tagName === 'a' && element.hasAttribute('href')) return LINK_STYLES;
+  return USER_AGENT_STYLES[tagName] || [];
+}
+
+// Whether a cascaded declaration is a user-agent default rather than the author's CSS
+export function isUserAgentDeclaration(declaration: CssDeclaration): boolean {
+  return LINK_STYLES.includes(declaration) ||
+    Object.values(USER_AGENT_STYLES).some(declarations => declarations.includes(declaration));
+}
+
+// Elements that produce Figma nodes (not text, comments or NON_RENDERED_TAGS)
+export function isRenderedElement(node: unknown): node is HTMLElement {
+  return node instanceof HTMLElement && !NON_RENDERED_TAGS.includes(node.tagName?.toLowerCase());
+}
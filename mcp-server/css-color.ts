@@ -0,0 +1,757 @@
+/**
+ * CSS color parsing (MCP Server side)
+ * Implements the CSS Color 4/5 grammar: hex, named and system colors, rgb()/hsl()/hwb()
+ * in legacy and space-separated syntax, lab()/lch()/oklab()/oklch(), color(), color-mix(),
+ * relative colors and light-dark(). Wide-gamut results are gamut mapped to sRGB for Figma.
+ */
+
+import { parseCssNumber } from './css-calc';
+import type { RGBA } from '../shared/types';
+
+type Vector = [number, number, number];
+type Matrix = [Vector, Vector, Vector];
+
+type ColorSpace =
+  | 'srgb' | 'srgb-linear' | 'display-p3' | 'a98-rgb' | 'prophoto-rgb' | 'rec2020'
+  | 'xyz-d50' | 'xyz-d65' | 'lab' | 'lch' | 'oklab' | 'oklch' | 'hsl' | 'hwb';
+
+// A color in its own space; hsl/hwb use 0-100 for saturation, lightness, whiteness, blackness
+interface Color {
+  space: ColorSpace;
+  coords: Vector;
+  alpha: number;
+}
+
+// CSS named colors (CSS Color 4)
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+  darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+  deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+  firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+  ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+  greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+  indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+  lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+  lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+  lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+  magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+  mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+  mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+  orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+  paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+  pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+  sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+  skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+  springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+  whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32',
+  // System colors in a light color scheme
+  canvas: 'ffffff', canvastext: '000000', linktext: '0000ee', visitedtext: '551a8b', activetext: 'ff0000',
+  buttonface: 'f0f0f0', buttontext: '000000', buttonborder: '767676', field: 'ffffff', fieldtext: '000000',
+  graytext: '808080', mark: 'ffff00', marktext: '000000', selecteditem: '0078d7', selecteditemtext: 'ffffff',
+  accentcolor: '0078d7', accentcolortext: 'ffffff',
+};
+
+// Conversion matrices from CSS Color 4 (linear RGB <-> XYZ, white point adaptation, OKLab)
+const SRGB_TO_XYZ: Matrix = [
+  [506752 / 1228815, 87881 / 245763, 12673 / 70218],
+  [87098 / 409605, 175762 / 245763, 12673 / 175545],
+  [7918 / 409605, 87881 / 737289, 1001167 / 1053270],
+];
+const XYZ_TO_SRGB: Matrix = [
+  [12831 / 3959, -329 / 214, -1974 / 3959],
+  [-851781 / 878810, 1648619 / 878810, 36519 / 878810],
+  [705 / 12673, -2585 / 12673, 705 / 667],
+];
+const P3_TO_XYZ: Matrix = [
+  [608311 / 1250200, 189793 / 714400, 198249 / 1000160],
+  [35783 / 156275, 247089 / 357200, 198249 / 2500400],
+  [0, 32229 / 714400, 5220557 / 5000800],
+];
+const XYZ_TO_P3: Matrix = [
+  [446124 / 178915, -333277 / 357830, -72051 / 178915],
+  [-14852 / 17905, 63121 / 35810, 423 / 17905],
+  [11844 / 330415, -50337 / 660830, 316169 / 330415],
+];
+const A98_TO_XYZ: Matrix = [
+  [573536 / 994567, 263643 / 1420810, 187206 / 994567],
+  [591459 / 1989134, 6239551 / 9945670, 374412 / 4972835],
+  [53769 / 1989134, 351524 / 4972835, 4929758 / 4972835],
+];
+const XYZ_TO_A98: Matrix = [
+  [1829569 / 896150, -506331 / 896150, -308931 / 896150],
+  [-851781 / 878810, 1648619 / 878810, 36519 / 878810],
+  [16779 / 1248040, -147721 / 1248040, 1266979 / 1248040],
+];
+// ProPhoto RGB is defined relative to D50
+const PROPHOTO_TO_XYZ_D50: Matrix = [
+  [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+  [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+  [0, 0, 0.8251046025104602],
+];
+const XYZ_D50_TO_PROPHOTO: Matrix = [
+  [1.3457868816471583, -0.25557208737979464, -0.05110186497554526],
+  [-0.5446307051249019, 1.5082477428451468, 0.02052744743642139],
+  [0, 0, 1.2119675456389452],
+];
+const REC2020_TO_XYZ: Matrix = [
+  [63426534 / 99577255, 20160776 / 139408157, 47086771 / 278816314],
+  [26158966 / 99577255, 472592308 / 697040785, 8267143 / 139408157],
+  [0, 19567812 / 697040785, 295819943 / 278816314],
+];
+const XYZ_TO_REC2020: Matrix = [
+  [30757411 / 17917100, -6372589 / 17917100, -4539589 / 17917100],
+  [-19765991 / 29648200, 47925759 / 29648200, 467509 / 29648200],
+  [792561 / 44930125, -1921689 / 44930125, 42328811 / 44930125],
+];
+const D50_TO_D65: Matrix = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+const D65_TO_D50: Matrix = [
+  [1.0479297925449969, 0.022946870601609652, -0.05019226628920524],
+  [0.02962780877005599, 0.9904344267538799, -0.017073799063418826],
+  [-0.009243040646204504, 0.015055191490298152, 0.7518742814281371],
+];
+const XYZ_TO_LMS: Matrix = [
+  [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+const LMS_TO_OKLAB: Matrix = [
+  [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.42859224204858, 0.450593709617411],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+];
+const OKLAB_TO_LMS: Matrix = [
+  [1, 0.3963377773761749, 0.2158037573099136],
+  [1, -0.1055613458156586, -0.0638541728258133],
+  [1, -0.0894841775298119, -1.2914855480194092],
+];
+const LMS_TO_XYZ: Matrix = [
+  [1.2268798758459243, -0.5578149944602171, 0.2813910456659647],
+  [-0.0405757452148008, 1.112286803280317, -0.0717110580655164],
+  [-0.0763729366746601, -0.4214933324022432, 1.5869240198367816],
+];
+
+const D50_WHITE: Vector = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_KAPPA = 24389 / 27;
+const LAB_EPSILON = 216 / 24389;
+
+function multiply(matrix: Matrix, vector: Vector): Vector {
+  return [
+    matrix[0][0] * vector[0] + matrix[0][1] * vector[1] + matrix[0][2] * vector[2],
+    matrix[1][0] * vector[0] + matrix[1][1] * vector[1] + matrix[1][2] * vector[2],
+    matrix[2][0] * vector[0] + matrix[2][1] * vector[1] + matrix[2][2] * vector[2],
+  ];
+}
+
+function mapVector(vector: Vector, fn: (value: number) => number): Vector {
+  return [fn(vector[0]), fn(vector[1]), fn(vector[2])];
+}
+
+// Transfer functions (gamma encoded <-> linear light), odd-extended for negative values
+function srgbToLinear(value: number): number {
+  const abs = Math.abs(value);
+  return abs <= 0.04045 ? value / 12.92 : Math.sign(value) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(value: number): number {
+  const abs = Math.abs(value);
+  return abs > 0.0031308 ? Math.sign(value) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055) : 12.92 * value;
+}
+
+function a98ToLinear(value: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), 563 / 256);
+}
+
+function linearToA98(value: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), 256 / 563);
+}
+
+function prophotoToLinear(value: number): number {
+  const abs = Math.abs(value);
+  return abs <= 16 / 512 ? value / 16 : Math.sign(value) * Math.pow(abs, 1.8);
+}
+
+function linearToProphoto(value: number): number {
+  const abs = Math.abs(value);
+  return abs >= 1 / 512 ? Math.sign(value) * Math.pow(abs, 1 / 1.8) : 16 * value;
+}
+
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+function rec2020ToLinear(value: number): number {
+  const abs = Math.abs(value);
+  if (abs < REC2020_BETA * 4.5) return value / 4.5;
+  return Math.sign(value) * Math.pow((abs + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45);
+}
+
+function linearToRec2020(value: number): number {
+  const abs = Math.abs(value);
+  if (abs > REC2020_BETA) return Math.sign(value) * (REC2020_ALPHA * Math.pow(abs, 0.45) - (REC2020_ALPHA - 1));
+  return 4.5 * value;
+}
+
+function hslToSrgb([hue, saturation, lightness]: Vector): Vector {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+function srgbToHsl([r, g, b]: Vector): Vector {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (min + max) / 2;
+  const delta = max - min;
+  let hue = 0;
+  let saturation = 0;
+
+  // Round-trips through XYZ leave tiny differences in achromatic colors
+  if (delta > 1e-6) {
+    saturation = lightness === 0 || lightness === 1 ? 0 : (max - lightness) / Math.min(lightness, 1 - lightness);
+    switch (max) {
+      case r: hue = (g - b) / delta + (g < b ? 6 : 0); break;
+      case g: hue = (b - r) / delta + 2; break;
+      case b: hue = (r - g) / delta + 4; break;
+    }
+    hue *= 60;
+  }
+  return [hue, saturation * 100, lightness * 100];
+}
+
+function hwbToSrgb([hue, whiteness, blackness]: Vector): Vector {
+  const w = whiteness / 100;
+  const b = blackness / 100;
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return [gray, gray, gray];
+  }
+  return mapVector(hslToSrgb([hue, 100, 50]), value => value * (1 - w - b) + w);
+}
+
+function srgbToHwb(rgb: Vector): Vector {
+  const [hue] = srgbToHsl(rgb);
+  return [hue, Math.min(...rgb) * 100, (1 - Math.max(...rgb)) * 100];
+}
+
+function labToXyzD50([lightness, a, b]: Vector): Vector {
+  const f1 = (lightness + 16) / 116;
+  const f0 = a / 500 + f1;
+  const f2 = f1 - b / 200;
+  const xyz: Vector = [
+    Math.pow(f0, 3) > LAB_EPSILON ? Math.pow(f0, 3) : (116 * f0 - 16) / LAB_KAPPA,
+    lightness > LAB_KAPPA * LAB_EPSILON ? Math.pow(f1, 3) : lightness / LAB_KAPPA,
+    Math.pow(f2, 3) > LAB_EPSILON ? Math.pow(f2, 3) : (116 * f2 - 16) / LAB_KAPPA,
+  ];
+  return [xyz[0] * D50_WHITE[0], xyz[1] * D50_WHITE[1], xyz[2] * D50_WHITE[2]];
+}
+
+function xyzD50ToLab(xyz: Vector): Vector {
+  const f = (value: number) => value > LAB_EPSILON ? Math.cbrt(value) : (LAB_KAPPA * value + 16) / 116;
+  const [f0, f1, f2] = [f(xyz[0] / D50_WHITE[0]), f(xyz[1] / D50_WHITE[1]), f(xyz[2] / D50_WHITE[2])];
+  return [116 * f1 - 16, 500 * (f0 - f1), 200 * (f1 - f2)];
+}
+
+function oklabToXyz(lab: Vector): Vector {
+  return multiply(LMS_TO_XYZ, mapVector(multiply(OKLAB_TO_LMS, lab), value => value * value * value));
+}
+
+function xyzToOklab(xyz: Vector): Vector {
+  return multiply(LMS_TO_OKLAB, mapVector(multiply(XYZ_TO_LMS, xyz), Math.cbrt));
+}
+
+// Polar <-> rectangular forms of lab/oklab
+function toPolar([lightness, a, b]: Vector): Vector {
+  const hue = Math.atan2(b, a) * 180 / Math.PI;
+  return [lightness, Math.sqrt(a * a + b * b), (hue + 360) % 360];
+}
+
+function fromPolar([lightness, chroma, hue]: Vector): Vector {
+  const radians = (isNaN(hue) ? 0 : hue) * Math.PI / 180;
+  return [lightness, chroma * Math.cos(radians), chroma * Math.sin(radians)];
+}
+
+// Convert coordinates in any space to XYZ (D65)
+function toXyz(space: ColorSpace, coords: Vector): Vector {
+  switch (space) {
+    case 'srgb': return multiply(SRGB_TO_XYZ, mapVector(coords, srgbToLinear));
+    case 'srgb-linear': return multiply(SRGB_TO_XYZ, coords);
+    case 'display-p3': return multiply(P3_TO_XYZ, mapVector(coords, srgbToLinear));
+    case 'a98-rgb': return multiply(A98_TO_XYZ, mapVector(coords, a98ToLinear));
+    case 'prophoto-rgb': return multiply(D50_TO_D65, multiply(PROPHOTO_TO_XYZ_D50, mapVector(coords, prophotoToLinear)));
+    case 'rec2020': return multiply(REC2020_TO_XYZ, mapVector(coords, rec2020ToLinear));
+    case 'xyz-d65': return coords;
+    case 'xyz-d50': return multiply(D50_TO_D65, coords);
+    case 'lab': return multiply(D50_TO_D65, labToXyzD50(coords));
+    case 'lch': return multiply(D50_TO_D65, labToXyzD50(fromPolar(coords)));
+    case 'oklab': return oklabToXyz(coords);
+    case 'oklch': return oklabToXyz(fromPolar(coords));
+    case 'hsl': return toXyz('srgb', hslToSrgb(coords));
+    case 'hwb': return toXyz('srgb', hwbToSrgb(coords));
+  }
+}
+
+// Convert XYZ (D65) to coordinates in any space
+function fromXyz(space: ColorSpace, xyz: Vector): Vector {
+  switch (space) {
+    case 'srgb': return mapVector(multiply(XYZ_TO_SRGB, xyz), linearToSrgb);
+    case 'srgb-linear': return multiply(XYZ_TO_SRGB, xyz);
+    case 'display-p3': return mapVector(multiply(XYZ_TO_P3, xyz), linearToSrgb);
+    case 'a98-rgb': return mapVector(multiply(XYZ_TO_A98, xyz), linearToA98);
+    case 'prophoto-rgb': return mapVector(multiply(XYZ_D50_TO_PROPHOTO, multiply(D65_TO_D50, xyz)), linearToProphoto);
+    case 'rec2020': return mapVector(multiply(XYZ_TO_REC2020, xyz), linearToRec2020);
+    case 'xyz-d65': return xyz;
+    case 'xyz-d50': return multiply(D65_TO_D50, xyz);
+    case 'lab': return xyzD50ToLab(multiply(D65_TO_D50, xyz));
+    case 'lch': return toPolar(xyzD50ToLab(multiply(D65_TO_D50, xyz)));
+    case 'oklab': return xyzToOklab(xyz);
+    case 'oklch': return toPolar(xyzToOklab(xyz));
+    case 'hsl': return srgbToHsl(fromXyz('srgb', xyz));
+    case 'hwb': return srgbToHwb(fromXyz('srgb', xyz));
+  }
+}
+
+const SRGB_FAMILY: ColorSpace[] = ['srgb', 'hsl', 'hwb'];
+
+function srgbFamilyToSrgb(space: ColorSpace, coords: Vector): Vector {
+  if (space === 'hsl') return hslToSrgb(coords);
+  if (space === 'hwb') return hwbToSrgb(coords);
+  return coords;
+}
+
+function convert(color: Color, space: ColorSpace): Color {
+  if (color.space === space) return color;
+  if (SRGB_FAMILY.includes(color.space) && SRGB_FAMILY.includes(space)) {
+    // Convert directly so achromatic colors keep exact channels
+    const rgb = srgbFamilyToSrgb(color.space, color.coords);
+    const coords = space === 'hsl' ? srgbToHsl(rgb) : space === 'hwb' ? srgbToHwb(rgb) : rgb;
+    return { space, coords, alpha: color.alpha };
+  }
+  return { space, coords: fromXyz(space, toXyz(color.space, color.coords)), alpha: color.alpha };
+}
+
+// Gamut mapping (CSS Color 4): reduce OKLCh chroma until clipping is imperceptible
+const GAMUT_JND = 0.02;
+const GAMUT_EPSILON = 0.0001;
+
+function inSrgbGamut(rgb: Vector): boolean {
+  return rgb.every(value => value >= -GAMUT_EPSILON && value <= 1 + GAMUT_EPSILON);
+}
+
+function clipSrgb(rgb: Vector): Vector {
+  return mapVector(rgb, value => Math.max(0, Math.min(1, value)));
+}
+
+function deltaEOK(first: Vector, second: Vector): number {
+  const a = fromXyz('oklab', toXyz('srgb', first));
+  const b = fromXyz('oklab', toXyz('srgb', second));
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+function gamutMapToSrgb(color: Color): Vector {
+  const rgb = convert(color, 'srgb').coords;
+  if (inSrgbGamut(rgb)) return clipSrgb(rgb);
+
+  const [lightness, chroma, hue] = convert(color, 'oklch').coords;
+  if (lightness >= 1) return [1, 1, 1];
+  if (lightness <= 0) return [0, 0, 0];
+
+  const toSrgb = (c: number) => fromXyz('srgb', toXyz('oklch', [lightness, c, hue]));
+  let clipped = clipSrgb(rgb);
+  if (deltaEOK(clipped, rgb) < GAMUT_JND) return clipped;
+
+  let min = 0;
+  let max = chroma;
+  let minInGamut = true;
+  while (max - min > GAMUT_EPSILON) {
+    const current = (min + max) / 2;
+    const candidate = toSrgb(current);
+    if (minInGamut && inSrgbGamut(candidate)) {
+      min = current;
+      continue;
+    }
+    clipped = clipSrgb(candidate);
+    const delta = deltaEOK(clipped, candidate);
+    if (delta < GAMUT_JND) {
+      if (GAMUT_JND - delta < GAMUT_EPSILON) return clipped;
+      minInGamut = false;
+      min = current;
+    } else {
+      max = current;
+    }
+  }
+  return clipped;
+}
+
+// Split function arguments at top-level separators
+function splitArguments(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    if (depth === 0 && separator.test(char)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// Angle in degrees (unitless numbers are degrees)
+function parseAngle(value: string): number | null {
+  const match = value.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'rad': return amount * 180 / Math.PI;
+    case 'grad': return amount * 0.9;
+    case 'turn': return amount * 360;
+    default: return amount;
+  }
+}
+
+type ChannelKind = 'number' | 'hue';
+
+interface ChannelSpec {
+  kind: ChannelKind;
+  // Value that 100% maps to
+  percent: number;
+}
+
+interface ColorFunctionSpec {
+  space: ColorSpace;
+  channels: [string, string, string];
+  specs: [ChannelSpec, ChannelSpec, ChannelSpec];
+  // Factor between channel values as written and stored coordinates (rgb() uses 0-255)
+  scale?: number;
+}
+
+const range = (percent: number): ChannelSpec => ({ kind: 'number', percent });
+const HUE: ChannelSpec = { kind: 'hue', percent: 0 };
+
+const COLOR_FUNCTIONS: Record<string, ColorFunctionSpec> = {
+  rgb: { space: 'srgb', channels: ['r', 'g', 'b'], specs: [range(255), range(255), range(255)], scale: 255 },
+  rgba: { space: 'srgb', channels: ['r', 'g', 'b'], specs: [range(255), range(255), range(255)], scale: 255 },
+  hsl: { space: 'hsl', channels: ['h', 's', 'l'], specs: [HUE, range(100), range(100)] },
+  hsla: { space: 'hsl', channels: ['h', 's', 'l'], specs: [HUE, range(100), range(100)] },
+  hwb: { space: 'hwb', channels: ['h', 'w', 'b'], specs: [HUE, range(100), range(100)] },
+  lab: { space: 'lab', channels: ['l', 'a', 'b'], specs: [range(100), range(125), range(125)] },
+  lch: { space: 'lch', channels: ['l', 'c', 'h'], specs: [range(100), range(150), HUE] },
+  oklab: { space: 'oklab', channels: ['l', 'a', 'b'], specs: [range(1), range(0.4), range(0.4)] },
+  oklch: { space: 'oklch', channels: ['l', 'c', 'h'], specs: [range(1), range(0.4), HUE] },
+};
+
+// Spaces accepted by color() (channels are 0-1, or XYZ values)
+const PREDEFINED_SPACES: Record<string, ColorSpace> = {
+  'srgb': 'srgb',
+  'srgb-linear': 'srgb-linear',
+  'display-p3': 'display-p3',
+  'a98-rgb': 'a98-rgb',
+  'prophoto-rgb': 'prophoto-rgb',
+  'rec2020': 'rec2020',
+  'xyz': 'xyz-d65',
+  'xyz-d65': 'xyz-d65',
+  'xyz-d50': 'xyz-d50',
+};
+
+// Parse one channel: a number, percentage, angle, none, a relative color keyword or calc()
+function parseChannel(value: string, spec: ChannelSpec, keywords: Record<string, number>): number | null {
+  if (value === 'none') return 0;
+  if (value in keywords) return keywords[value];
+
+  if (value.endsWith('%') && spec.kind === 'number') {
+    const percent = parseFloat(value);
+    return isNaN(percent) ? null : percent / 100 * spec.percent;
+  }
+  if (spec.kind === 'hue') {
+    const angle = parseAngle(value);
+    if (angle !== null) return angle;
+  } else if (/^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/.test(value)) {
+    return parseFloat(value);
+  }
+
+  if (/^calc\(/.test(value)) {
+    // Relative color keywords stand for numbers inside calc()
+    const substituted = value.replace(/\b(alpha|[a-z])\b/g, name => name in keywords ? String(keywords[name]) : name);
+    return parseCssNumber(substituted);
+  }
+  return null;
+}
+
+function parseAlpha(value: string | undefined, keywords: Record<string, number>): number | null {
+  if (value === undefined) return 'alpha' in keywords ? keywords.alpha : 1;
+  const alpha = parseChannel(value, range(1), keywords);
+  return alpha === null ? null : Math.max(0, Math.min(1, alpha));
+}
+
+// Split "c1 c2 c3 / alpha" (modern) or "c1, c2, c3, alpha" (legacy)
+function splitChannels(body: string): { channels: string[]; alpha?: string } | null {
+  if (splitArguments(body, /,/).length > 1) {
+    const parts = splitArguments(body, /,/);
+    if (parts.length !== 3 && parts.length !== 4) return null;
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
+  }
+
+  const [channelPart, alphaPart, ...extra] = splitArguments(body, /\//);
+  if (extra.length > 0 || !channelPart) return null;
+  const channels = splitArguments(channelPart, /\s/);
+  return { channels, alpha: alphaPart };
+}
+
+// Relative color syntax: "from <color> ..." exposes the origin's channels as keywords
+function readRelativeOrigin(body: string, currentColor: RGBA | undefined): { origin: Color; rest: string } | null {
+  const parts = splitArguments(body, /\s/);
+  if (parts[0] !== 'from' || parts.length < 2) return null;
+  const origin = parseColorValue(parts[1], currentColor);
+  if (!origin) return null;
+  return { origin, rest: parts.slice(2).join(' ') };
+}
+
+function parseColorFunction(name: string, body: string, currentColor: RGBA | undefined): Color | null {
+  let keywords: Record<string, number> = {};
+  let space: ColorSpace;
+  let specs: [ChannelSpec, ChannelSpec, ChannelSpec];
+  let scale = 1;
+
+  const relative = readRelativeOrigin(body, currentColor);
+  if (name === 'color') {
+    let rest = relative ? relative.rest : body;
+    const [spaceName] = splitArguments(rest, /\s/);
+    const predefined = PREDEFINED_SPACES[spaceName];
+    if (!predefined) return null;
+    rest = rest.slice(spaceName.length);
+    space = predefined;
+    specs = [range(1), range(1), range(1)];
+    if (relative) {
+      const coords = convert(relative.origin, space).coords;
+      const channelNames = space.startsWith('xyz') ? ['x', 'y', 'z'] : ['r', 'g', 'b'];
+      keywords = { [channelNames[0]]: coords[0], [channelNames[1]]: coords[1], [channelNames[2]]: coords[2], alpha: relative.origin.alpha };
+    }
+    body = rest;
+  } else {
+    const spec = COLOR_FUNCTIONS[name];
+    if (!spec) return null;
+    space = spec.space;
+    specs = spec.specs;
+    scale = spec.scale ?? 1;
+    if (relative) {
+      const coords = convert(relative.origin, space).coords;
+      keywords = { alpha: relative.origin.alpha };
+      spec.channels.forEach((channel, index) => {
+        keywords[channel] = isNaN(coords[index]) ? 0 : coords[index] * scale;
+      });
+      body = relative.rest;
+    }
+  }
+
+  const split = splitChannels(body);
+  if (!split || split.channels.length !== 3) return null;
+
+  const coords: number[] = [];
+  for (let i = 0; i < 3; i++) {
+    const value = parseChannel(split.channels[i], specs[i], keywords);
+    if (value === null) return null;
+    coords.push(value / scale);
+  }
+  const alpha = parseAlpha(split.alpha, keywords);
+  if (alpha === null) return null;
+
+  // Lightness and chroma can't be negative
+  if (space === 'lab' || space === 'lch' || space === 'oklab' || space === 'oklch') {
+    coords[0] = Math.max(0, coords[0]);
+    if (space === 'lch' || space === 'oklch') coords[1] = Math.max(0, coords[1]);
+  }
+  // rgb(), hsl() and hwb() clamp out-of-range channels at parse time; only color() and the
+  // wide-gamut spaces go through gamut mapping
+  if (name !== 'color') {
+    if (space === 'srgb') {
+      coords.forEach((coord, index) => { coords[index] = Math.max(0, Math.min(1, coord)); });
+    } else if (space === 'hsl' || space === 'hwb') {
+      coords[1] = Math.max(0, Math.min(100, coords[1]));
+      coords[2] = Math.max(0, Math.min(100, coords[2]));
+    }
+  }
+
+  return { space, coords: coords as Vector, alpha };
+}
+
+// Interpolation spaces accepted by color-mix()
+const MIX_SPACES: Record<string, ColorSpace> = {
+  ...PREDEFINED_SPACES,
+  'lab': 'lab',
+  'lch': 'lch',
+  'oklab': 'oklab',
+  'oklch': 'oklch',
+  'hsl': 'hsl',
+  'hwb': 'hwb',
+};
+
+// Index of the hue coordinate of a polar space
+function hueIndex(space: ColorSpace): number | null {
+  if (space === 'hsl' || space === 'hwb') return 0;
+  if (space === 'lch' || space === 'oklch') return 2;
+  return null;
+}
+
+// Hue is powerless (and adopts the other color's hue) for achromatic colors
+function isAchromatic(color: Color): boolean {
+  switch (color.space) {
+    case 'hsl': return color.coords[1] < 1e-4;
+    case 'hwb': return color.coords[1] + color.coords[2] >= 100 - 1e-4;
+    case 'lch': return color.coords[1] < 1e-4;
+    case 'oklch': return color.coords[1] < 1e-6;
+    default: return false;
+  }
+}
+
+function interpolateHue(from: number, to: number, amount: number, method: string): number {
+  let difference = to - from;
+  switch (method) {
+    case 'longer':
+      if (difference > 0 && difference < 180) difference -= 360;
+      else if (difference > -180 && difference <= 0) difference += 360;
+      break;
+    case 'increasing':
+      if (difference < 0) difference += 360;
+      break;
+    case 'decreasing':
+      if (difference > 0) difference -= 360;
+      break;
+    default:
+      if (difference > 180) difference -= 360;
+      else if (difference < -180) difference += 360;
+  }
+  return ((from + difference * amount) % 360 + 360) % 360;
+}
+
+// color-mix(in <space> [<hue> hue], <color> [<percentage>], <color> [<percentage>])
+function parseColorMix(body: string, currentColor: RGBA | undefined): Color | null {
+  const [method, first, second, ...extra] = splitArguments(body, /,/);
+  if (!method || !first || !second || extra.length > 0) return null;
+
+  const methodMatch = method.match(/^in\s+([a-z0-9-]+)(?:\s+(shorter|longer|increasing|decreasing)\s+hue)?$/);
+  if (!methodMatch || !MIX_SPACES[methodMatch[1]]) return null;
+  const space = MIX_SPACES[methodMatch[1]];
+  const hueMethod = methodMatch[2] ?? 'shorter';
+
+  const readStop = (stop: string): { color: Color; percent?: number } | null => {
+    const parts = splitArguments(stop, /\s/);
+    let percent: number | undefined;
+    const head = parts[0];
+    const tail = parts[parts.length - 1];
+    if (parts.length === 2 && tail.endsWith('%')) {
+      percent = parseFloat(tail);
+      parts.pop();
+    } else if (parts.length === 2 && head.endsWith('%')) {
+      percent = parseFloat(head);
+      parts.shift();
+    }
+    if (parts.length !== 1 || (percent !== undefined && isNaN(percent))) return null;
+    const color = parseColorValue(parts[0], currentColor);
+    return color ? { color, percent } : null;
+  };
+
+  const a = readStop(first);
+  const b = readStop(second);
+  if (!a || !b) return null;
+
+  let p1 = a.percent;
+  let p2 = b.percent;
+  if (p1 === undefined && p2 === undefined) { p1 = 50; p2 = 50; }
+  else if (p1 === undefined) p1 = 100 - (p2 as number);
+  else if (p2 === undefined) p2 = 100 - p1;
+  const total = (p1 as number) + (p2 as number);
+  if (total <= 0) return null;
+  const amount = (p2 as number) / total;
+  // Percentages summing to less than 100% make the result transparent in proportion
+  const alphaMultiplier = Math.min(1, total / 100);
+
+  const from = convert(a.color, space);
+  const to = convert(b.color, space);
+  const hue = hueIndex(space);
+  const fromCoords = [...from.coords] as Vector;
+  const toCoords = [...to.coords] as Vector;
+  if (hue !== null) {
+    if (isAchromatic(from)) fromCoords[hue] = isAchromatic(to) ? 0 : toCoords[hue];
+    if (isAchromatic(to)) toCoords[hue] = fromCoords[hue];
+  }
+
+  // Interpolate premultiplied components; hue is not premultiplied
+  const alpha = from.alpha + (to.alpha - from.alpha) * amount;
+  const coords = [0, 1, 2].map(index => {
+    if (index === hue) return interpolateHue(fromCoords[index], toCoords[index], amount, hueMethod);
+    const mixed = fromCoords[index] * from.alpha + (toCoords[index] * to.alpha - fromCoords[index] * from.alpha) * amount;
+    return alpha === 0 ? mixed : mixed / alpha;
+  }) as Vector;
+
+  return { space, coords, alpha: alpha * alphaMultiplier };
+}
+
+function parseHex(hex: string): Color | null {
+  if (!/^[0-9a-f]+$/.test(hex)) return null;
+  const expand = hex.length === 3 || hex.length === 4 ? hex.split('').map(char => char + char).join('') : hex;
+  if (expand.length !== 6 && expand.length !== 8) return null;
+  const channel = (index: number) => parseInt(expand.slice(index * 2, index * 2 + 2), 16) / 255;
+  return {
+    space: 'srgb',
+    coords: [channel(0), channel(1), channel(2)],
+    alpha: expand.length === 8 ? channel(3) : 1,
+  };
+}
+
+function parseColorValue(value: string, currentColor: RGBA | undefined): Color | null {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return null;
+
+  if (normalized.startsWith('#')) return parseHex(normalized.slice(1));
+  if (normalized === 'transparent') return { space: 'srgb', coords: [0, 0, 0], alpha: 0 };
+  if (normalized === 'currentcolor') {
+    return currentColor ? { space: 'srgb', coords: [currentColor.r, currentColor.g, currentColor.b], alpha: currentColor.a } : null;
+  }
+  if (NAMED_COLORS[normalized]) return parseHex(NAMED_COLORS[normalized]);
+
+  const functionMatch = normalized.match(/^([a-z-]+)\(([\s\S]*)\)$/);
+  if (!functionMatch) return null;
+  const [, name, body] = functionMatch;
+
+  if (name === 'color-mix') return parseColorMix(body, currentColor);
+  if (name === 'light-dark') {
+    // Figma renders the light scheme; dark values come through variable modes
+    const [light] = splitArguments(body, /,/);
+    return light ? parseColorValue(light, currentColor) : null;
+  }
+  return parseColorFunction(name, body.trim(), currentColor);
+}
+
+// Parse a CSS color to sRGB RGBA (0-1 channels), gamut mapping wide-gamut colors
+// currentColor: the element's computed color, used for the currentColor keyword
+export function parseColor(value: string, currentColor?: RGBA): RGBA | null {
+  if (!value) return null;
+  const color = parseColorValue(value, currentColor);
+  if (!color || color.coords.some(coord => !isFinite(coord) && !isNaN(coord))) return null;
+
+  const [r, g, b] = gamutMapToSrgb({ ...color, coords: mapVector(color.coords, coord => isNaN(coord) ? 0 : coord) });
+  return { r, g, b, a: color.alpha };
+}
@@ -0,0 +1,130 @@
+/**
+ * CSS custom properties (MCP Server side)
+ * Computes inherited --custom-property values per element and substitutes var() references
+ */
+
+import type { CssDeclaration } from './css-cascade';
+
+// Computed custom property values for an element (name -> value)
+export type CustomProperties = Record<string, string>;
+
+export function isCustomProperty(property: string): boolean {
+  return property.startsWith('--');
+}
+
+// Find the index of the parenthesis that closes the one opened before `start`
+function findClosingParen(value: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < value.length; i++) {
+    if (value[i] === '(') depth++;
+    else if (value[i] === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// Split var() arguments at the first top-level comma: var(--name, fallback, with, commas)
+function splitVarArguments(args: string): { name: string; fallback?: string } {
+  let depth = 0;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '(') depth++;
+    else if (args[i] === ')') depth--;
+    else if (args[i] === ',' && depth === 0) {
+      return { name: args.slice(0, i).trim(), fallback: args.slice(i + 1).trim() };
+    }
+  }
+  return { name: args.trim() };
+}
+
+// Replace every var() reference in a value
+// Returns null when a reference can't be resolved and has no fallback
+// (the declaration is then invalid at computed-value time)
+// `resolving` holds the properties currently being expanded, so cycles such as
+// --a: var(--b); --b: var(--a) resolve as invalid instead of recursing forever
+export function substituteVars(value: string, properties: CustomProperties, resolving: Set<string> = new Set()): string | null {
+  const varPattern = /var\s*\(/gi;
+  let result = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = varPattern.exec(value)) !== null) {
+    const argsStart = match.index + match[0].length;
+    const argsEnd = findClosingParen(value, argsStart);
+    if (argsEnd === -1) return null;
+
+    const { name, fallback } = splitVarArguments(value.slice(argsStart, argsEnd));
+    let replacement: string | null = null;
+
+    const propertyValue = properties[name];
+    if (propertyValue !== undefined && !resolving.has(name)) {
+      resolving.add(name);
+      replacement = substituteVars(propertyValue, properties, resolving);
+      resolving.delete(name);
+    }
+    if (replacement === null && fallback !== undefined) {
+      replacement = substituteVars(fallback, properties, resolving);
+    }
+    if (replacement === null) return null;
+
+    result += value.slice(lastIndex, match.index) + replacement;
+    lastIndex = argsEnd + 1;
+    varPattern.lastIndex = lastIndex;
+  }
+
+  return result + value.slice(lastIndex);
+}
+
+// Compute an element's custom properties from its cascaded declarations and its parent's values
+// Custom properties always inherit, and var() inside them resolves against the element itself
+export function computeCustomProperties(declarations: CssDeclaration[], inherited: CustomProperties): CustomProperties {
+  const specified: CustomProperties = {};
+  for (const declaration of declarations) {
+    if (isCustomProperty(declaration.property)) {
+      specified[declaration.property] = declaration.value;
+    }
+  }
+
+  if (Object.keys(specified).length === 0) return inherited;
+
+  const raw: CustomProperties = { ...inherited, ...specified };
+  const computed: CustomProperties = { ...inherited };
+  for (const [name, value] of Object.entries(specified)) {
+    const resolved = substituteVars(value, raw, new Set([name]));
+    if (resolved === null || resolved.trim() === 'initial') {
+      // Invalid or explicitly reset: the property is guaranteed-invalid, as if never declared
+      delete computed[name];
+    } else if (resolved.trim() !== 'inherit') {
+      computed[name] = resolved;
+    }
+  }
+  return computed;
+}
+
+// Substitute var() references in regular declarations
+// A declaration that fails substitution behaves like `unset`, so it also discards
+// the lower-precedence declarations of the same property that came before it
+export function resolveVarReferences(declarations: CssDeclaration[], properties: CustomProperties): CssDeclaration[] {
+  const resolved: CssDeclaration[] = [];
+
+  for (const declaration of declarations) {
+    if (isCustomProperty(declaration.property)) continue;
+
+    if (!/var\s*\(/i.test(declaration.value)) {
+      resolved.push(declaration);
+      continue;
+    }
+
+    const value = substituteVars(declaration.value, properties);
+    if (value === null) {
+      for (let i = resolved.length - 1; i >= 0; i--) {
+        if (resolved[i].property === declaration.property) resolved.splice(i, 1);
+      }
+      continue;
+    }
+    resolved.push({ ...declaration, value: value.trim() });
+  }
+
+  return resolved;
+}
@@ -0,0 +1,267 @@
+/**
+ * Design token extraction (MCP Server side)
+ * Collects global CSS custom properties per theme mode and records which token
+ * each element style value was resolved from, so the plugin can bind Figma Variables
+ */
+
+import * as csstree from 'css-tree';
+import { HTMLElement } from 'node-html-parser';
+import { isCustomProperty, substituteVars } from './css-variables';
+import type { CssDeclaration } from './css-cascade';
+import type { CustomProperties } from './css-variables';
+import type { DesignToken, DesignTokens, TokenBindableField, TokenBindings } from '../shared/types';
+
+export const DEFAULT_TOKEN_MODE = 'Default';
+
+// Declared (unresolved) token values per mode name; the default mode comes first
+export type TokenModes = Map<string, CustomProperties>;
+
+// Selectors whose custom properties are global design tokens
+const GLOBAL_SELECTORS = [':root', 'html', 'body', ':host'];
+
+// Properties that carry a color token, in the order their values are scanned
+const COLOR_PROPERTIES: Record<string, TokenBindableField> = {
+  'color': 'color',
+  'background-color': 'backgroundColor',
+  'background': 'backgroundColor',
+  'border-color': 'borderColor',
+  'border': 'borderColor',
+};
+
+// Box shorthands expand 1-4 values to sides/corners like margin does
+const BOX_SHORTHANDS: Record<string, [TokenBindableField, TokenBindableField, TokenBindableField, TokenBindableField]> = {
+  'padding': ['paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'],
+  'border-radius': ['borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomRightRadius', 'borderBottomLeftRadius'],
+};
+
+const LENGTH_PROPERTIES: Record<string, TokenBindableField[]> = {
+  'row-gap': ['rowGap'],
+  'column-gap': ['columnGap'],
+  'padding-top': ['paddingTop'],
+  'padding-right': ['paddingRight'],
+  'padding-bottom': ['paddingBottom'],
+  'padding-left': ['paddingLeft'],
+  'border-top-left-radius': ['borderTopLeftRadius'],
+  'border-top-right-radius': ['borderTopRightRadius'],
+  'border-bottom-right-radius': ['borderBottomRightRadius'],
+  'border-bottom-left-radius': ['borderBottomLeftRadius'],
+};
+
+const VAR_ONLY_PATTERN = /^var\(\s*(--[\w-]+)\s*(?:,([\s\S]*))?\)$/i;
+
+// Get the token name when a value is exactly one var() reference
+export function getVarReference(value: string): string | null {
+  const match = value.trim().match(VAR_ONLY_PATTERN);
+  return match ? match[1] : null;
+}
+
+// The custom property that supplies a var() value: the first defined one along the
+// fallback chain ("var(--missing, var(--c))" is supplied by --c)
+function findSuppliedReference(value: string, customProperties: CustomProperties): string | null {
+  const match = value.trim().match(VAR_ONLY_PATTERN);
+  if (!match) return null;
+  if (customProperties[match[1]] !== undefined) return match[1];
+  return match[2] === undefined ? null : findSuppliedReference(match[2], customProperties);
+}
+
+// Split a value at top-level whitespace (keeps var(), rgb() etc. intact)
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value.trim()) {
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    if (/\s/.test(char) && depth === 0) {
+      if (current) parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+// Side/corner values of a 1-4 value box shorthand in top, right, bottom, left order
+// (a missing bottom repeats the top, a missing left repeats the right)
+function expandBoxValues(parts: string[]): [string, string, string, string] | null {
+  if (parts.length < 1 || parts.length > 4) return null;
+  const [top, right = top, bottom = top, left = right] = parts;
+  return [top, right, bottom, left];
+}
+
+// Classify a selector: default mode, a [data-theme] mode, or not a token scope
+function getSelectorMode(selector: csstree.Selector): string | null {
+  let mode: string = DEFAULT_TOKEN_MODE;
+  let valid = true;
+
+  selector.children.forEach(node => {
+    if (node.type === 'AttributeSelector' && node.name.name === 'data-theme' && node.matcher === '=' && node.value) {
+      mode = node.value.type === 'String' ? node.value.value : node.value.name;
+    } else if (node.type === 'TypeSelector' && GLOBAL_SELECTORS.includes(node.name.toLowerCase())) {
+      // html, body
+    } else if (node.type === 'PseudoClassSelector' && GLOBAL_SELECTORS.includes(`:${node.name.toLowerCase()}`)) {
+      // :root, :host
+    } else {
+      valid = false;
+    }
+  });
+
+  return valid ? mode : null;
+}
+
+// Get the color scheme targeted by a media query, if any
+function getColorSchemeMode(prelude: string): string | null {
+  const match = prelude.match(/prefers-color-scheme\s*:\s*(dark|light)/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function addTokens(modes: TokenModes, mode: string, declarations: CssDeclaration[]): void {
+  const tokens = modes.get(mode) || {};
+  for (const declaration of declarations) {
+    if (isCustomProperty(declaration.property)) {
+      tokens[declaration.property] = declaration.value;
+    }
+  }
+  if (Object.keys(tokens).length > 0) modes.set(mode, tokens);
+}
+
+function readCustomDeclarations(block: csstree.Block): CssDeclaration[] {
+  const declarations: CssDeclaration[] = [];
+  block.children.forEach(node => {
+    if (node.type === 'Declaration' && isCustomProperty(node.property)) {
+      declarations.push({ property: node.property, value: csstree.generate(node.value).trim(), important: Boolean(node.important) });
+    }
+  });
+  return declarations;
+}
+
+function collectFromBlock(block: csstree.StyleSheet | csstree.Block, modes: TokenModes, mediaMode: string | null): void {
+  block.children.forEach(node => {
+    if (node.type === 'Rule' && node.prelude.type === 'SelectorList') {
+      const declarations = readCustomDeclarations(node.block);
+      if (declarations.length === 0) return;
+      node.prelude.children.forEach(selector => {
+        if (selector.type !== 'Selector') return;
+        const selectorMode = getSelectorMode(selector);
+        if (selectorMode === null) return;
+        // A [data-theme] selector wins over the media query it is nested in
+        const mode = selectorMode !== DEFAULT_TOKEN_MODE ? selectorMode : (mediaMode ?? DEFAULT_TOKEN_MODE);
+        addTokens(modes, mode, declarations);
+      });
+    } else if (node.type === 'Atrule' && node.block) {
+      const name = node.name.toLowerCase();
+      const prelude = node.prelude ? csstree.generate(node.prelude) : '';
+      if (name === 'media') {
+        const schemeMode = getColorSchemeMode(prelude);
+        // Other media queries don't define token modes
+        if (schemeMode) collectFromBlock(node.block, modes, schemeMode);
+      } else if (name === 'supports' || name === 'layer') {
+        collectFromBlock(node.block, modes, mediaMode);
+      }
+    }
+  });
+}
+
+// Collect global custom properties from every <style> block, grouped by mode
+export function collectTokenModes(root: HTMLElement): TokenModes {
+  const modes: TokenModes = new Map([[DEFAULT_TOKEN_MODE, {}]]);
+  for (const styleElement of root.querySelectorAll('style')) {
+    try {
+      const ast = csstree.parse(styleElement.textContent, {
+        parseValue: false,
+        parseAtrulePrelude: false,
+        parseCustomProperty: false,
+      });
+      if (ast.type === 'StyleSheet') collectFromBlock(ast, modes, null);
+    } catch {
+      // Stylesheet errors are reported by the cascade
+    }
+  }
+  return modes;
+}
+
+// Resolve token values for one mode (mode values override the defaults)
+export function resolveTokenMode(modes: TokenModes, mode: string): CustomProperties {
+  const declared: CustomProperties = { ...modes.get(DEFAULT_TOKEN_MODE), ...modes.get(mode) };
+  const resolved: CustomProperties = {};
+  for (const [name, value] of Object.entries(declared)) {
+    const result = substituteVars(value, declared, new Set([name]));
+    if (result !== null) resolved[name] = result.trim();
+  }
+  return resolved;
+}
+
+// Record which token each bindable style field comes from
+// A token only binds when the element sees the same value as the token's mode value,
+// so locally overridden custom properties keep their literal values
+export function collectTokenBindings(
+  declarations: CssDeclaration[],
+  customProperties: CustomProperties,
+  modeValues: CustomProperties
+): TokenBindings {
+  const bindings: TokenBindings = {};
+
+  const tokenFor = (value: string): string | undefined => {
+    const reference = findSuppliedReference(value, customProperties);
+    if (!reference) return undefined;
+    const elementValue = customProperties[reference];
+    if (modeValues[reference] === undefined) return undefined;
+    if (elementValue.trim() !== modeValues[reference]) return undefined;
+    return reference.slice(2);
+  };
+
+  const setBinding = (field: TokenBindableField, token: string | undefined) => {
+    if (token) bindings[field] = token;
+    else delete bindings[field];
+  };
+
+  for (const declaration of declarations) {
+    const { property, value } = declaration;
+
+    if (COLOR_PROPERTIES[property]) {
+      const field = COLOR_PROPERTIES[property];
+      if (property === 'border' || property === 'background') {
+        // Shorthands: bind the first var() part that is a token
+        const parts = splitTopLevel(value);
+        setBinding(field, parts.map(tokenFor).find(Boolean));
+      } else {
+        setBinding(field, tokenFor(value));
+      }
+    } else if (BOX_SHORTHANDS[property]) {
+      // Expand the values before looking up tokens, so literal sides stay unbound
+      const values = expandBoxValues(splitTopLevel(value));
+      if (!values) continue;
+      BOX_SHORTHANDS[property].forEach((field, index) => setBinding(field, tokenFor(values[index])));
+    } else if (property === 'gap') {
+      const [rowGap, columnGap = rowGap, ...rest] = splitTopLevel(value);
+      if (!rowGap || rest.length > 0) continue;
+      setBinding('rowGap', tokenFor(rowGap));
+      setBinding('columnGap', tokenFor(columnGap));
+    } else if (LENGTH_PROPERTIES[property]) {
+      for (const field of LENGTH_PROPERTIES[property]) {
+        setBinding(field, tokenFor(value));
+      }
+    }
+  }
+
+  return bindings;
+}
+
+// Combine the tokens of several parsed documents (e.g. the variants of a component set)
+// Modes are unioned in order; a token declared by several documents keeps its first definition
+export function mergeDesignTokens(documents: (DesignTokens | undefined)[]): DesignTokens | undefined {
+  const modes: string[] = [];
+  const tokens = new Map<string, DesignToken>();
+  for (const document of documents) {
+    if (!document) continue;
+    for (const mode of document.modes) {
+      if (!modes.includes(mode)) modes.push(mode);
+    }
+    for (const token of document.tokens) {
+      if (!tokens.has(token.name)) tokens.set(token.name, token);
+    }
+  }
+  return tokens.size > 0 ? { modes, tokens: Array.from(tokens.values()) } : undefined;
+}
@@ -0,0 +1,134 @@
+/**
+ * <head> contents (MCP Server side)
+ * Linked stylesheets join the cascade; <title> and <meta name="description"> name and
+ * describe the created component. <meta name="viewport"> is handled in viewports.ts
+ */
+
+import { HTMLElement } from 'node-html-parser';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as https from 'https';
+import * as http from 'http';
+
+// Hosts that only serve @font-face rules; Figma renders with its installed fonts instead
+const FONT_SERVICE_HOSTS = ['fonts.googleapis.com', 'use.typekit.net', 'fonts.bunny.net'];
+
+const STYLESHEET_TIMEOUT = 10000;
+
+// Stylesheet contents by URL or file path, shared by several parses of the same HTML
+// (breakpoints, component set variants) so each sheet is fetched once
+export type StylesheetCache = Map<string, Promise<string | null>>;
+
+function isFontService(url: string): boolean {
+  try {
+    return FONT_SERVICE_HOSTS.includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Local sheets are only read from .css files inside the explicit base directory
+function resolveLocalStylesheet(href: string, basePath: string): string | null {
+  const baseDirectory = path.resolve(basePath);
+  const filePath = path.resolve(baseDirectory, href.split(/[?#]/)[0]);
+  if (path.extname(filePath).toLowerCase() !== '.css' || !filePath.startsWith(baseDirectory + path.sep)) {
+    console.warn(`Skipped stylesheet outside ${baseDirectory} or not a .css file: ${href}`);
+    return null;
+  }
+  return filePath;
+}
+
+async function readLocalStylesheet(filePath: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(filePath, 'utf8');
+  } catch {
+    console.warn(`Stylesheet not found: ${filePath}`);
+    return null;
+  }
+}
+
+function downloadStylesheet(url: string, redirects = 3): Promise<string | null> {
+  return new Promise((resolve) => {
+    const protocol = url.startsWith('https://') ? https : http;
+    const request = protocol.get(url, {
+      timeout: STYLESHEET_TIMEOUT,
+      headers: { 'Accept': 'text/css' },
+    }, (response) => {
+      const { statusCode, headers } = response;
+      if (statusCode && statusCode >= 300 && statusCode < 400 && headers.location && redirects > 0) {
+        response.resume();
+        downloadStylesheet(new URL(headers.location, url).toString(), redirects - 1).then(resolve);
+        return;
+      }
+      if (statusCode !== 200) {
+        console.warn(`Failed to download stylesheet: HTTP ${statusCode} ${url}`);
+        response.resume();
+        resolve(null);
+        return;
+      }
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      response.on('error', () => resolve(null));
+    });
+    request.on('error', (err) => {
+      console.warn(`Failed to download stylesheet: ${err.message}`);
+      resolve(null);
+    });
+    request.on('timeout', () => {
+      console.warn(`Stylesheet download timed out: ${url}`);
+      request.destroy();
+      resolve(null);
+    });
+  });
+}
+
+// Replace each <link rel="stylesheet"> with a <style> block holding the sheet, so linked
+// rules take part in the cascade and token collection at their place in source order.
+// Relative hrefs resolve against basePath and are skipped without one
+export async function inlineLinkedStylesheets(
+  root: HTMLElement,
+  basePath?: string,
+  cache: StylesheetCache = new Map()
+): Promise<void> {
+  for (const link of root.querySelectorAll('link')) {
+    const rel = (link.getAttribute('rel') ?? '').toLowerCase().split(/\s+/);
+    const href = link.getAttribute('href')?.trim();
+    if (!rel.includes('stylesheet') || rel.includes('alternate') || !href) continue;
+
+    const isRemote = /^https?:\/\//i.test(href);
+    let source: string | null = null;
+    if (isRemote) {
+      source = isFontService(href) ? null : href;
+    } else if (!/^[a-z][a-z0-9+.-]*:/i.test(href) && basePath) {
+      source = resolveLocalStylesheet(href, basePath);
+    }
+    if (!source) continue;
+
+    let loading = cache.get(source);
+    if (!loading) {
+      loading = isRemote ? downloadStylesheet(source) : readLocalStylesheet(source);
+      cache.set(source, loading);
+    }
+    const css = await loading;
+    if (css === null) continue;
+
+    const media = link.getAttribute('media')?.trim();
+    const sheet = media && media.toLowerCase() !== 'all' ? `@media ${media} {\n${css}\n}` : css;
+    link.replaceWith(`<style>${sheet.replace(/<\/style/gi, '<\\/style')}</style>`);
+  }
+}
+
+// Text of <title>, whitespace collapsed (undefined when missing or empty)
+export function readDocumentTitle(root: HTMLElement): string | undefined {
+  const title = root.querySelector('title')?.textContent.replace(/\s+/g, ' ').trim();
+  return title || undefined;
+}
+
+// Content of <meta name="description">
+export function readMetaDescription(root: HTMLElement): string | undefined {
+  const meta = root.querySelectorAll('meta').find(
+    element => element.getAttribute('name')?.toLowerCase() === 'description'
+  );
+  return meta?.getAttribute('content')?.trim() || undefined;
+}
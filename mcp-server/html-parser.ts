@@ -3,33 +3,92 @@
  * Uses node-html-parser for Node.js environment
  */
 
-import { parse, HTMLElement, TextNode } from 'node-html-parser';
+import { parse, HTMLElement } from 'node-html-parser';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as https from 'https';
 import * as http from 'http';
 import sharp from 'sharp';
-import type { ParsedStyle, ParsedElement, RGBA, BoxShadow, LinearGradient, RadialGradient, GradientStop } from '../shared/types';
+import { collectStylesheet, cascadeDeclarations, hasStateRules, isRenderedElement, isUserAgentDeclaration } from './css-cascade';
+import type { CssDeclaration, InteractionState, Stylesheet } from './css-cascade';
+import { computeCustomProperties, resolveVarReferences } from './css-variables';
+import type { CustomProperties } from './css-variables';
+import { collectTokenModes, collectTokenBindings, resolveTokenMode, getVarReference, DEFAULT_TOKEN_MODE } from './design-tokens';
+import type { TokenModes } from './design-tokens';
+import { parseCssLength, parseCssNumber, toPixels, computeFontSize, DEFAULT_LENGTH_CONTEXT } from './css-calc';
+import type { LengthContext } from './css-calc';
+import { applyMetaViewport } from './viewports';
+import { inlineLinkedStylesheets, readDocumentTitle, readMetaDescription } from './document-head';
+import type { StylesheetCache } from './document-head';
+import { parseColor } from './css-color';
+import { extractText, formatInlineText } from './inline-text';
+import { serializeSvg, serializeSvgImage } from './inline-svg';
+import { detectImageFormat, decodeDataUri, decodeBmp, FIGMA_IMAGE_FORMATS } from './image-formats';
+import type { MediaEnvironment } from './media-queries';
+import { resolveCssLength, DEFAULT_VIEWPORT } from '../shared/css-length';
+import type {
+  ParsedStyle,
+  ParsedElement,
+  ParsedDocument,
+  ParsedRootStyle,
+  RGBA,
+  BoxShadow,
+  LinearGradient,
+  RadialGradient,
+  GradientStop,
+  GridTrack,
+  GridTemplate,
+  GridPlacement,
+  GridAlignment,
+  DeferredLengthField,
+  DesignToken,
+  DesignTokens,
+  TokenBindings,
+  Viewport,
+  InteractionStateName,
+  ParsedStateVariant,
+} from '../shared/types';
 
 // Figma max image dimension (4096x4096)
 const MAX_IMAGE_DIMENSION = 4096;
 // Max file size for reasonable performance (5MB)
 const MAX_IMAGE_SIZE_BYTES = 5 * 1024 * 1024;
 
-// Resize and compress image if needed, returns Base64 string
-async function processImage(buffer: Buffer, sourceName: string): Promise<string | null> {
+// A loaded <img> source: Base64 image data, or SVG markup for vectors
+type LoadedImage = { data: string; width?: number; height?: number } | { svg: string };
+
+// Loaded <img> sources by src, so re-parsing an element (state variants, breakpoints)
+// doesn't download or convert the same image again
+export type ImageCache = Map<string, Promise<LoadedImage | null>>;
+
+// Resize and compress image if needed, converting formats Figma can't use as image fills.
+// The format comes from the leading bytes; SVG sources are returned as markup
+async function processImage(buffer: Buffer, sourceName: string): Promise<LoadedImage | null> {
+  const format = detectImageFormat(buffer);
+  if (!format) {
+    console.warn(`Unsupported image format: ${sourceName}`);
+    return null;
+  }
+  if (format === 'svg') {
+    return { svg: buffer.toString('utf8') };
+  }
+
   try {
-    const image = sharp(buffer);
+    let image: sharp.Sharp;
+    if (format === 'bmp') {
+      const bitmap = decodeBmp(buffer);
+      if (!bitmap) {
+        console.warn(`Unsupported BMP variant: ${sourceName}`);
+        return null;
+      }
+      image = sharp(bitmap.pixels, { raw: { width: bitmap.width, height: bitmap.height, channels: 4 } });
+    } else {
+      image = sharp(buffer);
+    }
     const metadata = await image.metadata();
 
     const width = metadata.width || 0;
     const height = metadata.height || 0;
-    const format = metadata.format;
-
-    // Check if format is supported by Figma
-    if (format === 'webp') {
-      console.warn(`WebP format is not supported by Figma, converting to JPEG`);
-    }
 
     // Check if resize is needed
     const needsResize = width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION || buffer.length > MAX_IMAGE_SIZE_BYTES;
@@ -54,27 +113,32 @@ async function processImage(buffer: Buffer, sourceName: string): Promise<string
         .toBuffer();
 
       console.log(`Processed image: ${sourceName} -> ${newWidth}x${newHeight} (${Math.round(processedBuffer.length / 1024)}KB)`);
-      return processedBuffer.toString('base64');
+      return { data: processedBuffer.toString('base64') };
     }
 
-    // Convert WebP to JPEG even if size is ok
-    if (format === 'webp') {
-      const convertedBuffer = await image.jpeg({ quality: 90 }).toBuffer();
-      console.log(`Converted WebP to JPEG: ${sourceName} (${Math.round(convertedBuffer.length / 1024)}KB)`);
-      return convertedBuffer.toString('base64');
+    // Convert WebP, AVIF, HEIF, TIFF and BMP even if size is ok (PNG keeps transparency)
+    if (!FIGMA_IMAGE_FORMATS.includes(format)) {
+      const convertedBuffer = metadata.hasAlpha
+        ? await image.png().toBuffer()
+        : await image.jpeg({ quality: 90 }).toBuffer();
+      const target = metadata.hasAlpha ? 'PNG' : 'JPEG';
+      console.log(`Converted ${format.toUpperCase()} to ${target}: ${sourceName} (${Math.round(convertedBuffer.length / 1024)}KB)`);
+      return { data: convertedBuffer.toString('base64') };
     }
 
     // Return original if no processing needed
-    return buffer.toString('base64');
+    return { data: buffer.toString('base64') };
   } catch (error) {
-    console.warn(`Failed to process image: ${sourceName}`, error instanceof Error ? error.message : '');
+    // sharp's prebuilt libheif decodes AVIF but not HEVC-coded HEIC photos
+    const hint = format === 'heif' ? ' (HEIC images need a sharp build with HEVC support)' : '';
+    console.warn(`Failed to process image: ${sourceName}${hint}`, error instanceof Error ? error.message : '');
     return null;
   }
 }
 
 // Load image file and convert to Base64 (with automatic resizing)
-// Returns { data, width, height } or null if failed
-async function loadImageAsBase64(src: string, basePath?: string): Promise<{ data: string; width?: number; height?: number } | null> {
+// Returns { data, width, height }, { svg } for SVG files, or null if failed
+async function loadImageAsBase64(src: string, basePath?: string): Promise<LoadedImage | null> {
   try {
     let imagePath = src;
 
@@ -92,22 +156,9 @@ async function loadImageAsBase64(src: string, basePath?: string): Promise<{ data
       return null;
     }
 
-    // Check file extension (now also supports webp since we convert it)
-    const ext = path.extname(imagePath).toLowerCase();
-    if (!['.png', '.jpg', '.jpeg', '.gif', '.webp'].includes(ext)) {
-      console.warn(`Unsupported image format: ${ext}`);
-      return null;
-    }
-
-    // Read file and process (resize/compress if needed)
+    // Read file and process (resize/compress/convert if needed, format detected from its bytes)
     const fileBuffer = fs.readFileSync(imagePath);
-    const base64Data = await processImage(fileBuffer, path.basename(imagePath));
-
-    if (!base64Data) {
-      return null;
-    }
-
-    return { data: base64Data };
+    return await processImage(fileBuffer, path.basename(imagePath));
   } catch (error) {
     console.warn(`Failed to load image: ${src}`, error instanceof Error ? error.message : '');
     return null;
@@ -115,8 +166,8 @@ async function loadImageAsBase64(src: string, basePath?: string): Promise<{ data
 }
 
 // Download web image and convert to Base64 (with automatic resizing/conversion)
-// Returns { data } or null if failed
-async function downloadImageAsBase64(url: string): Promise<{ data: string } | null> {
+// Returns { data }, { svg } for SVG images, or null if failed
+async function downloadImageAsBase64(url: string): Promise<LoadedImage | null> {
   return new Promise((resolve) => {
     try {
       const protocol = url.startsWith('https://') ? https : http;
@@ -156,12 +207,7 @@ async function downloadImageAsBase64(url: string): Promise<{ data: string } | nu
           console.log(`Downloaded image: ${url.substring(0, 60)}... (${Math.round(buffer.length / 1024)}KB)`);
 
           // Process image (resize/convert if needed)
-          const base64Data = await processImage(buffer, url.substring(0, 60));
-          if (base64Data) {
-            resolve({ data: base64Data });
-          } else {
-            resolve(null);
-          }
+          resolve(await processImage(buffer, url.substring(0, 60)));
         });
         response.on('error', (err) => {
           console.warn(`Error reading response: ${err.message}`);
@@ -186,231 +232,39 @@ async function downloadImageAsBase64(url: string): Promise<{ data: string } | nu
   });
 }
 
-// Helper to convert HSL to RGB
-function hslToRgb(h: number, s: number, l: number): { r: number; g: number; b: number } {
-  // Normalize h to 0-360, s and l to 0-1
-  h = ((h % 360) + 360) % 360;
-  s = Math.max(0, Math.min(1, s));
-  l = Math.max(0, Math.min(1, l));
-
-  const c = (1 - Math.abs(2 * l - 1)) * s;
-  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
-  const m = l - c / 2;
-
-  let r = 0, g = 0, b = 0;
-  if (h < 60) { r = c; g = x; b = 0; }
-  else if (h < 120) { r = x; g = c; b = 0; }
-  else if (h < 180) { r = 0; g = c; b = x; }
-  else if (h < 240) { r = 0; g = x; b = c; }
-  else if (h < 300) { r = x; g = 0; b = c; }
-  else { r = c; g = 0; b = x; }
-
-  return {
-    r: r + m,
-    g: g + m,
-    b: b + m,
-  };
-}
-
-// Helper to parse color strings to RGBA
-function parseColor(colorStr: string): RGBA | null {
-  if (!colorStr) return null;
-
-  // Handle hex colors
-  const hexMatch = colorStr.match(/^#([0-9a-f]{3,8})$/i);
-  if (hexMatch) {
-    const hex = hexMatch[1];
-    if (hex.length === 3) {
-      return {
-        r: parseInt(hex[0] + hex[0], 16) / 255,
-        g: parseInt(hex[1] + hex[1], 16) / 255,
-        b: parseInt(hex[2] + hex[2], 16) / 255,
-        a: 1,
-      };
-    } else if (hex.length === 6) {
-      return {
-        r: parseInt(hex.slice(0, 2), 16) / 255,
-        g: parseInt(hex.slice(2, 4), 16) / 255,
-        b: parseInt(hex.slice(4, 6), 16) / 255,
-        a: 1,
-      };
-    } else if (hex.length === 8) {
-      return {
-        r: parseInt(hex.slice(0, 2), 16) / 255,
-        g: parseInt(hex.slice(2, 4), 16) / 255,
-        b: parseInt(hex.slice(4, 6), 16) / 255,
-        a: parseInt(hex.slice(6, 8), 16) / 255,
-      };
-    }
-  }
-
-  // Handle rgb/rgba colors
-  const rgbMatch = colorStr.match(/rgba?\s*\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+))?\s*\)/i);
-  if (rgbMatch) {
-    return {
-      r: parseInt(rgbMatch[1], 10) / 255,
-      g: parseInt(rgbMatch[2], 10) / 255,
-      b: parseInt(rgbMatch[3], 10) / 255,
-      a: rgbMatch[4] !== undefined ? parseFloat(rgbMatch[4]) : 1,
-    };
-  }
-
-  // Handle hsl/hsla colors
-  const hslMatch = colorStr.match(/hsla?\s*\(\s*([\d.]+)\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%\s*(?:,\s*([\d.]+))?\s*\)/i);
-  if (hslMatch) {
-    const h = parseFloat(hslMatch[1]);
-    const s = parseFloat(hslMatch[2]) / 100;
-    const l = parseFloat(hslMatch[3]) / 100;
-    const a = hslMatch[4] !== undefined ? parseFloat(hslMatch[4]) : 1;
-    const { r, g, b } = hslToRgb(h, s, l);
-    return { r, g, b, a };
-  }
-
-  // Handle named colors (extended list)
-  const namedColors: Record<string, RGBA> = {
-    // Basic colors
-    white: { r: 1, g: 1, b: 1, a: 1 },
-    black: { r: 0, g: 0, b: 0, a: 1 },
-    red: { r: 1, g: 0, b: 0, a: 1 },
-    green: { r: 0, g: 128/255, b: 0, a: 1 },
-    blue: { r: 0, g: 0, b: 1, a: 1 },
-    yellow: { r: 1, g: 1, b: 0, a: 1 },
-    transparent: { r: 0, g: 0, b: 0, a: 0 },
-    // Grays
-    gray: { r: 128/255, g: 128/255, b: 128/255, a: 1 },
-    grey: { r: 128/255, g: 128/255, b: 128/255, a: 1 },
-    silver: { r: 192/255, g: 192/255, b: 192/255, a: 1 },
-    darkgray: { r: 169/255, g: 169/255, b: 169/255, a: 1 },
-    darkgrey: { r: 169/255, g: 169/255, b: 169/255, a: 1 },
-    lightgray: { r: 211/255, g: 211/255, b: 211/255, a: 1 },
-    lightgrey: { r: 211/255, g: 211/255, b: 211/255, a: 1 },
-    // Common colors
-    orange: { r: 1, g: 165/255, b: 0, a: 1 },
-    purple: { r: 128/255, g: 0, b: 128/255, a: 1 },
-    pink: { r: 1, g: 192/255, b: 203/255, a: 1 },
-    brown: { r: 165/255, g: 42/255, b: 42/255, a: 1 },
-    cyan: { r: 0, g: 1, b: 1, a: 1 },
-    aqua: { r: 0, g: 1, b: 1, a: 1 },
-    magenta: { r: 1, g: 0, b: 1, a: 1 },
-    fuchsia: { r: 1, g: 0, b: 1, a: 1 },
-    lime: { r: 0, g: 1, b: 0, a: 1 },
-    teal: { r: 0, g: 128/255, b: 128/255, a: 1 },
-    navy: { r: 0, g: 0, b: 128/255, a: 1 },
-    maroon: { r: 128/255, g: 0, b: 0, a: 1 },
-    olive: { r: 128/255, g: 128/255, b: 0, a: 1 },
-    // Extended colors
-    coral: { r: 1, g: 127/255, b: 80/255, a: 1 },
-    salmon: { r: 250/255, g: 128/255, b: 114/255, a: 1 },
-    tomato: { r: 1, g: 99/255, b: 71/255, a: 1 },
-    gold: { r: 1, g: 215/255, b: 0, a: 1 },
-    khaki: { r: 240/255, g: 230/255, b: 140/255, a: 1 },
-    violet: { r: 238/255, g: 130/255, b: 238/255, a: 1 },
-    indigo: { r: 75/255, g: 0, b: 130/255, a: 1 },
-    plum: { r: 221/255, g: 160/255, b: 221/255, a: 1 },
-    orchid: { r: 218/255, g: 112/255, b: 214/255, a: 1 },
-    turquoise: { r: 64/255, g: 224/255, b: 208/255, a: 1 },
-    skyblue: { r: 135/255, g: 206/255, b: 235/255, a: 1 },
-    steelblue: { r: 70/255, g: 130/255, b: 180/255, a: 1 },
-    royalblue: { r: 65/255, g: 105/255, b: 225/255, a: 1 },
-    slateblue: { r: 106/255, g: 90/255, b: 205/255, a: 1 },
-    darkblue: { r: 0, g: 0, b: 139/255, a: 1 },
-    lightblue: { r: 173/255, g: 216/255, b: 230/255, a: 1 },
-    dodgerblue: { r: 30/255, g: 144/255, b: 255/255, a: 1 },
-    forestgreen: { r: 34/255, g: 139/255, b: 34/255, a: 1 },
-    seagreen: { r: 46/255, g: 139/255, b: 87/255, a: 1 },
-    darkgreen: { r: 0, g: 100/255, b: 0, a: 1 },
-    lightgreen: { r: 144/255, g: 238/255, b: 144/255, a: 1 },
-    limegreen: { r: 50/255, g: 205/255, b: 50/255, a: 1 },
-    crimson: { r: 220/255, g: 20/255, b: 60/255, a: 1 },
-    firebrick: { r: 178/255, g: 34/255, b: 34/255, a: 1 },
-    darkred: { r: 139/255, g: 0, b: 0, a: 1 },
-    hotpink: { r: 1, g: 105/255, b: 180/255, a: 1 },
-    deeppink: { r: 1, g: 20/255, b: 147/255, a: 1 },
-    chocolate: { r: 210/255, g: 105/255, b: 30/255, a: 1 },
-    sienna: { r: 160/255, g: 82/255, b: 45/255, a: 1 },
-    tan: { r: 210/255, g: 180/255, b: 140/255, a: 1 },
-    wheat: { r: 245/255, g: 222/255, b: 179/255, a: 1 },
-    beige: { r: 245/255, g: 245/255, b: 220/255, a: 1 },
-    ivory: { r: 1, g: 1, b: 240/255, a: 1 },
-    snow: { r: 1, g: 250/255, b: 250/255, a: 1 },
-    whitesmoke: { r: 245/255, g: 245/255, b: 245/255, a: 1 },
-    aliceblue: { r: 240/255, g: 248/255, b: 1, a: 1 },
-    ghostwhite: { r: 248/255, g: 248/255, b: 1, a: 1 },
-    lavender: { r: 230/255, g: 230/255, b: 250/255, a: 1 },
-    mintcream: { r: 245/255, g: 1, b: 250/255, a: 1 },
-  };
-
-  return namedColors[colorStr.toLowerCase()] || null;
-}
-
-// Parse calc() expression - handles simple cases like calc(100px - 20px)
-function parseCalc(value: string, baseFontSize: number = 16): number | null {
-  // Extract content inside calc()
-  const calcMatch = value.match(/^calc\s*\(\s*(.+)\s*\)$/i);
-  if (!calcMatch) return null;
-
-  const expr = calcMatch[1].trim();
-
-  // Parse simple binary expressions: value1 op value2
-  // Supports +, -, *, /
-  const binaryMatch = expr.match(/^(-?[\d.]+)(px|em|rem)?\s*([\+\-\*\/])\s*(-?[\d.]+)(px|em|rem)?$/);
-  if (binaryMatch) {
-    const num1 = parseFloat(binaryMatch[1]);
-    const unit1 = binaryMatch[2] || 'px';
-    const op = binaryMatch[3];
-    const num2 = parseFloat(binaryMatch[4]);
-    const unit2 = binaryMatch[5] || 'px';
-
-    // Convert to px
-    const val1 = unit1 === 'em' || unit1 === 'rem' ? num1 * baseFontSize : num1;
-    const val2 = unit2 === 'em' || unit2 === 'rem' ? num2 * baseFontSize : num2;
-
-    switch (op) {
-      case '+': return val1 + val2;
-      case '-': return val1 - val2;
-      case '*': return val1 * val2;
-      case '/': return val2 !== 0 ? val1 / val2 : null;
-    }
+// Load an <img> source (web URL, data: URI or local path) once per parse context
+function loadImage(src: string, context: ParseContext): Promise<LoadedImage | null> {
+  const cached = context.images.get(src);
+  if (cached) return cached;
+
+  let loading: Promise<LoadedImage | null>;
+  if (src.startsWith('http://') || src.startsWith('https://')) {
+    // Web URL - download and convert to Base64
+    console.log(`Downloading web image: ${src.substring(0, 80)}...`);
+    loading = downloadImageAsBase64(src);
+  } else if (/^data:/i.test(src)) {
+    // data: URI - decode and process like a file
+    const buffer = decodeDataUri(src);
+    if (!buffer) console.warn(`Invalid data URI: ${src.substring(0, 40)}...`);
+    loading = buffer ? processImage(buffer, src.substring(0, 40)) : Promise.resolve(null);
+  } else {
+    // Local file path - load and convert to Base64
+    loading = loadImageAsBase64(src, context.basePath);
   }
-
-  // If it's just a simple value inside calc(), parse it
-  const simpleVal = parseLength(expr, baseFontSize);
-  if (simpleVal !== null) return simpleVal;
-
-  return null;
+  context.images.set(src, loading);
+  return loading;
 }
 
-// Parse CSS value with unit to number (px, em, rem -> px)
-function parseLength(value: string, baseFontSize: number = 16): number | null {
+// Parse a length to px (calc(), min(), max() and clamp() included)
+// Returns null for values that need layout context (%, vw, vh); see parseCssLength
+function parseLength(value: string, context: LengthContext = DEFAULT_LENGTH_CONTEXT): number | null {
   if (!value) return null;
-
-  // Check for calc() first
-  if (value.toLowerCase().startsWith('calc(')) {
-    return parseCalc(value, baseFontSize);
-  }
-
-  // Support negative values
-  const match = value.match(/^(-?[\d.]+)(px|em|rem|%)?$/);
-  if (!match) return null;
-
-  const num = parseFloat(match[1]);
-  const unit = match[2] || 'px';
-
-  switch (unit) {
-    case 'px':
-      return num;
-    case 'em':
-    case 'rem':
-      return num * baseFontSize;
-    case '%':
-      return null; // Percentages need special handling
-    default:
-      return num;
-  }
+  const length = parseCssLength(value, context);
+  return length ? toPixels(length) : null;
 }
 
 // Parse box-shadow CSS property
-function parseBoxShadow(value: string): BoxShadow[] {
+function parseBoxShadow(value: string, currentColor?: RGBA): BoxShadow[] {
   if (!value || value === 'none') return [];
 
   const shadows: BoxShadow[] = [];
@@ -434,26 +288,16 @@ function parseBoxShadow(value: string): BoxShadow[] {
     const inset = part.includes('inset');
     const cleanPart = part.replace('inset', '').trim();
 
+    // The color may be any token, including functions with spaces (rgb(0 0 0 / 10%), oklch(...))
     let color: RGBA = { r: 0, g: 0, b: 0, a: 0.25 };
-    let numericPart = cleanPart;
-
-    const rgbMatch = cleanPart.match(/rgba?\s*\([^)]+\)/i);
-    if (rgbMatch) {
-      const parsed = parseColor(rgbMatch[0]);
-      if (parsed) color = parsed;
-      numericPart = cleanPart.replace(rgbMatch[0], '').trim();
-    } else {
-      const tokens = cleanPart.split(/\s+/);
-      const lastToken = tokens[tokens.length - 1];
-      const parsed = parseColor(lastToken);
-      if (parsed) {
-        color = parsed;
-        tokens.pop();
-        numericPart = tokens.join(' ');
-      }
+    const tokens = splitOutsideParens(cleanPart);
+    const colorIndex = tokens.findIndex(token => parseLength(token) === null && parseColor(token, currentColor) !== null);
+    if (colorIndex !== -1) {
+      color = parseColor(tokens[colorIndex], currentColor) as RGBA;
+      tokens.splice(colorIndex, 1);
     }
 
-    const nums = numericPart.split(/\s+/).map(n => parseLength(n) || 0);
+    const nums = tokens.map(n => parseLength(n) || 0);
     if (nums.length >= 2) {
       shadows.push({
         offsetX: nums[0],
@@ -470,7 +314,7 @@ function parseBoxShadow(value: string): BoxShadow[] {
 }
 
 // Parse linear-gradient CSS property
-function parseLinearGradient(value: string): LinearGradient | null {
+function parseLinearGradient(value: string, currentColor?: RGBA): LinearGradient | null {
   // Find linear-gradient and extract content handling nested parentheses
   const startMatch = value.match(/linear-gradient\s*\(/i);
   if (!startMatch) return null;
@@ -565,7 +409,7 @@ function parseLinearGradient(value: string): LinearGradient | null {
       colorStr = part.slice(0, part.length - posMatch[0].length).trim();
     }
 
-    const color = parseColor(colorStr);
+    const color = parseColor(colorStr, currentColor);
     if (color) {
       // If no position specified, distribute evenly
       if (position === null) {
@@ -581,7 +425,7 @@ function parseLinearGradient(value: string): LinearGradient | null {
 }
 
 // Parse radial-gradient CSS property
-function parseRadialGradient(value: string): RadialGradient | null {
+function parseRadialGradient(value: string, currentColor?: RGBA): RadialGradient | null {
   // Find radial-gradient and extract content handling nested parentheses
   const startMatch = value.match(/radial-gradient\s*\(/i);
   if (!startMatch) return null;
@@ -679,7 +523,7 @@ function parseRadialGradient(value: string): RadialGradient | null {
       colorStr = part.slice(0, part.length - posMatch[0].length).trim();
     }
 
-    const color = parseColor(colorStr);
+    const color = parseColor(colorStr, currentColor);
     if (color) {
       // If no position specified, distribute evenly
       if (position === null) {
@@ -694,24 +538,205 @@ function parseRadialGradient(value: string): RadialGradient | null {
   return { shape, centerX, centerY, stops };
 }
 
-// Parse inline style string to ParsedStyle
-function parseInlineStyle(styleStr: string): ParsedStyle {
+// Split a value at top-level separators (whitespace by default), ignoring those inside parentheses
+function splitOutsideParens(value: string, separator: RegExp = /\s/): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let depth = 0;
+  for (const char of value) {
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    if (depth === 0 && separator.test(char)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// Parse one grid track size: 200px, 1fr, auto, 25%, minmax(200px, 1fr), fit-content(300px)
+function parseGridTrack(value: string, context: LengthContext = DEFAULT_LENGTH_CONTEXT): GridTrack | null {
+  const lower = value.toLowerCase();
+  if (lower === 'auto' || lower === 'min-content' || lower === 'max-content' || lower.startsWith('fit-content(')) {
+    return { type: 'HUG' };
+  }
+
+  const frMatch = lower.match(/^([\d.]+)fr$/);
+  if (frMatch) return { type: 'FLEX', value: parseFloat(frMatch[1]) };
+
+  const percentMatch = lower.match(/^([\d.]+)%$/);
+  if (percentMatch) return { type: 'PERCENT', value: parseFloat(percentMatch[1]) };
+
+  const minmaxMatch = lower.match(/^minmax\((.*)\)$/);
+  if (minmaxMatch) {
+    const [minValue, maxValue] = splitOutsideParens(minmaxMatch[1], /,/);
+    if (!minValue || !maxValue) return null;
+    const track = parseGridTrack(maxValue, context);
+    if (!track) return null;
+    const min = parseLength(minValue, context);
+    if (min !== null && min > 0) track.min = min;
+    return track;
+  }
+
+  const length = parseLength(value, context);
+  return length !== null ? { type: 'FIXED', value: length } : null;
+}
+
+// Parse grid-template-columns / grid-template-rows
+// Supports repeat(n, ...), repeat(auto-fill | auto-fit, ...) and ignores [line-names]
+function parseGridTemplate(value: string, context: LengthContext = DEFAULT_LENGTH_CONTEXT): GridTemplate | null {
+  const template: GridTemplate = { tracks: [] };
+  const parts = splitOutsideParens(value.replace(/\[[^\]]*\]/g, ' '));
+
+  for (const part of parts) {
+    const repeatMatch = part.match(/^repeat\((.*)\)$/i);
+    if (!repeatMatch) {
+      const track = parseGridTrack(part, context);
+      if (!track) return null;
+      template.tracks.push(track);
+      continue;
+    }
+
+    const [count, ...rest] = splitOutsideParens(repeatMatch[1], /,/);
+    const tracks = splitOutsideParens(rest.join(',')).map(track => parseGridTrack(track, context));
+    if (tracks.length === 0 || tracks.some(track => track === null)) return null;
+    const repeated = tracks as GridTrack[];
+
+    if (count === 'auto-fill' || count === 'auto-fit') {
+      template.autoRepeat = { mode: count, tracks: repeated, index: template.tracks.length };
+    } else {
+      const times = parseInt(count, 10);
+      if (isNaN(times) || times < 1) return null;
+      for (let i = 0; i < times; i++) {
+        template.tracks.push(...repeated.map(track => ({ ...track })));
+      }
+    }
+  }
+
+  return template.tracks.length > 0 || template.autoRepeat ? template : null;
+}
+
+// Parse grid-template-areas: "header header" "sidebar main"
+function parseGridTemplateAreas(value: string): string[][] | null {
+  const rows = value.match(/"[^"]*"|'[^']*'/g);
+  if (!rows) return null;
+  const areas = rows.map(row => row.slice(1, -1).trim().split(/\s+/));
+  const columns = areas[0].length;
+  return areas.every(row => row.length === columns) ? areas : null;
+}
+
+// Parse one side of a grid line: 2, -1, span 2, auto
+function parseGridLine(value: string): { line?: number; span?: number } | null {
+  const lower = value.trim().toLowerCase();
+  if (lower === 'auto') return {};
+  const spanMatch = lower.match(/^span\s+(\d+)$/);
+  if (spanMatch) return { span: parseInt(spanMatch[1], 10) };
+  const line = parseInt(lower, 10);
+  return !isNaN(line) && line !== 0 && String(line) === lower ? { line } : null;
+}
+
+// Parse grid-column / grid-row: "1 / 3", "span 2", "2 / span 3", "1 / -1"
+function parseGridPlacement(value: string): GridPlacement | null {
+  const [startValue, endValue] = value.split('/');
+  const start = parseGridLine(startValue);
+  const end = endValue !== undefined ? parseGridLine(endValue) : {};
+  if (!start || !end) return null;
+
+  const placement: GridPlacement = {};
+  if (start.line !== undefined) placement.start = start.line;
+  if (end.line !== undefined) placement.end = end.line;
+  const span = start.span ?? end.span;
+  if (span !== undefined) placement.span = span;
+  return placement;
+}
+
+// Parse an alignment keyword used by justify-items / justify-self
+function parseGridAlignment(value: string): GridAlignment | null {
+  const alignmentMap: Record<string, GridAlignment> = {
+    'start': 'start',
+    'flex-start': 'start',
+    'self-start': 'start',
+    'left': 'start',
+    'end': 'end',
+    'flex-end': 'end',
+    'self-end': 'end',
+    'right': 'end',
+    'center': 'center',
+    'stretch': 'stretch',
+    'normal': 'stretch',
+  };
+  return alignmentMap[value] ?? null;
+}
+
+// Font sizes, viewport and color that one element's declarations resolve against
+interface StyleContext extends LengthContext {
+  parentFontSize: number;
+  viewport: { width: number; height: number };
+  // Computed color of the element (currentColor)
+  currentColor: RGBA;
+}
+
+const DEFAULT_STYLE_CONTEXT: StyleContext = {
+  ...DEFAULT_LENGTH_CONTEXT,
+  parentFontSize: DEFAULT_LENGTH_CONTEXT.fontSize,
+  viewport: DEFAULT_VIEWPORT,
+  currentColor: { r: 0, g: 0, b: 0, a: 1 },
+};
+
+const PADDING_FIELDS = ['paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'] as const;
+const MARGIN_FIELDS = ['marginTop', 'marginRight', 'marginBottom', 'marginLeft'] as const;
+
+// Clear longhand properties when a shorthand resets them (later declarations win)
+function resetLonghands(style: ParsedStyle, keys: (keyof ParsedStyle)[]): void {
+  for (const key of keys) {
+    delete style[key];
+  }
+}
+
+// Split a font-family value into its fallback list (quotes removed)
+function parseFontFamilies(value: string): string[] {
+  return splitOutsideParens(value, /,/)
+    .map(family => family.trim().replace(/^(["'])(.*)\1$/, '$2').trim())
+    .filter(family => family.length > 0);
+}
+
+// Convert cascaded declarations to ParsedStyle
+// Declarations are applied in order, so the last one for each property wins
+function parseDeclarations(declarations: CssDeclaration[], context: StyleContext = DEFAULT_STYLE_CONTEXT): ParsedStyle {
   const style: ParsedStyle = {};
-  if (!styleStr) return style;
 
-  const declarations = styleStr.split(';').map(d => d.trim()).filter(Boolean);
+  // Set a length field; values with %, vw or vh are deferred to the plugin
+  const setLength = (field: DeferredLengthField, value: string): boolean => {
+    const length = parseCssLength(value, context);
+    if (!length) return false;
+    const pixels = toPixels(length);
+    if (pixels !== null) {
+      style[field] = pixels;
+      if (style.lengths) delete style.lengths[field];
+    } else {
+      delete style[field];
+      style.lengths = { ...style.lengths, [field]: length };
+    }
+    return true;
+  };
 
-  for (const decl of declarations) {
-    const colonIndex = decl.indexOf(':');
-    if (colonIndex === -1) continue;
+  // Clear a length field along with its deferred value
+  const clearLength = (field: DeferredLengthField) => {
+    delete style[field];
+    if (style.lengths) delete style.lengths[field];
+  };
 
-    const prop = decl.slice(0, colonIndex).trim().toLowerCase();
-    const value = decl.slice(colonIndex + 1).trim();
+  for (const decl of declarations) {
+    const prop = decl.property;
+    const value = decl.value;
 
     switch (prop) {
       // Layout
       case 'display':
-        if (['flex', 'inline-flex', 'block', 'inline', 'inline-block', 'none'].includes(value)) {
+        if (['flex', 'inline-flex', 'grid', 'inline-grid', 'block', 'inline', 'inline-block', 'none'].includes(value)) {
           style.display = value as ParsedStyle['display'];
         }
         break;
@@ -735,15 +760,31 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
         const alignMap: Record<string, ParsedStyle['alignItems']> = {
           'flex-start': 'flex-start',
           'flex-end': 'flex-end',
+          'start': 'flex-start',
+          'end': 'flex-end',
           'center': 'center',
           'stretch': 'stretch',
           'baseline': 'baseline',
         };
         if (alignMap[value]) style.alignItems = alignMap[value];
         break;
-      case 'gap':
-        const gapVal = parseLength(value);
-        if (gapVal !== null) style.gap = gapVal;
+      case 'gap': {
+        // gap: <row-gap> [<column-gap>]
+        clearLength('gap');
+        clearLength('rowGap');
+        clearLength('columnGap');
+        const [rowGapValue, columnGapValue = rowGapValue] = splitOutsideParens(value);
+        if (!rowGapValue) break;
+        setLength('rowGap', rowGapValue);
+        setLength('columnGap', columnGapValue);
+        if (columnGapValue === rowGapValue) setLength('gap', rowGapValue);
+        break;
+      }
+      case 'row-gap':
+        setLength('rowGap', value);
+        break;
+      case 'column-gap':
+        setLength('columnGap', value);
         break;
       case 'flex':
         // Parse flex shorthand: flex-grow [flex-shrink] [flex-basis]
@@ -769,13 +810,15 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
         if (value === 'auto') {
           style.flexBasis = 'auto';
         } else {
-          const fb = parseLength(value);
+          const fb = parseLength(value, context);
           if (fb !== null) style.flexBasis = fb;
         }
         break;
       case 'align-self':
         if (['auto', 'flex-start', 'flex-end', 'center', 'stretch', 'baseline'].includes(value)) {
           style.alignSelf = value as ParsedStyle['alignSelf'];
+        } else if (value === 'start' || value === 'end') {
+          style.alignSelf = value === 'start' ? 'flex-start' : 'flex-end';
         }
         break;
       case 'order':
@@ -790,20 +833,10 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
         }
         break;
       case 'top':
-        const topVal = parseLength(value);
-        if (topVal !== null) style.top = topVal;
-        break;
       case 'right':
-        const rightVal = parseLength(value);
-        if (rightVal !== null) style.right = rightVal;
-        break;
       case 'bottom':
-        const bottomVal = parseLength(value);
-        if (bottomVal !== null) style.bottom = bottomVal;
-        break;
       case 'left':
-        const leftVal = parseLength(value);
-        if (leftVal !== null) style.left = leftVal;
+        setLength(prop, value);
         break;
       case 'z-index':
         const zVal = parseInt(value, 10);
@@ -812,42 +845,48 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
 
       // Sizing
       case 'width':
-        if (value === 'auto') style.width = 'auto';
-        else if (value === '100%') style.width = 'fill';
-        else {
-          const w = parseLength(value);
-          if (w !== null) style.width = w;
+        if (value === 'auto') {
+          clearLength('width');
+          style.width = 'auto';
+        } else if (value === '100%') {
+          clearLength('width');
+          style.width = 'fill';
+        } else {
+          setLength('width', value);
         }
         break;
       case 'height':
-        if (value === 'auto') style.height = 'auto';
-        else if (value === '100%') style.height = 'fill';
-        else {
-          // Check for percentage values
+        delete style.heightPercent;
+        if (value === 'auto') {
+          clearLength('height');
+          style.height = 'auto';
+        } else if (value === '100%') {
+          clearLength('height');
+          style.height = 'fill';
+        } else {
+          // Plain percentages are resolved by the plugin against the parent height
           const heightPercentMatch = value.match(/^(\d+(?:\.\d+)?)%$/);
           if (heightPercentMatch) {
+            clearLength('height');
             style.heightPercent = parseFloat(heightPercentMatch[1]);
           } else {
-            const h = parseLength(value);
-            if (h !== null) style.height = h;
+            setLength('height', value);
           }
         }
         break;
       case 'min-width':
-        const minW = parseLength(value);
-        if (minW !== null) style.minWidth = minW;
+        setLength('minWidth', value);
         break;
       case 'min-height':
-        const minH = parseLength(value);
-        if (minH !== null) style.minHeight = minH;
+        setLength('minHeight', value);
         break;
       case 'max-width':
-        const maxW = parseLength(value);
-        if (maxW !== null) style.maxWidth = maxW;
+        if (value === 'none') clearLength('maxWidth');
+        else setLength('maxWidth', value);
         break;
       case 'max-height':
-        const maxH = parseLength(value);
-        if (maxH !== null) style.maxHeight = maxH;
+        if (value === 'none') clearLength('maxHeight');
+        else setLength('maxHeight', value);
         break;
       case 'aspect-ratio':
         // aspect-ratio: 1, 1/1, 16/9, auto, etc.
@@ -864,117 +903,96 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
         break;
 
       // Padding
-      case 'padding':
-        const padVals = value.split(/\s+/).map(v => parseLength(v));
-        if (padVals.length === 1 && padVals[0] !== null) {
-          style.padding = padVals[0];
-        } else if (padVals.length === 2) {
-          style.paddingTop = padVals[0] ?? 0;
-          style.paddingBottom = padVals[0] ?? 0;
-          style.paddingLeft = padVals[1] ?? 0;
-          style.paddingRight = padVals[1] ?? 0;
-        } else if (padVals.length === 3) {
-          // 3 values: top, left-right, bottom
-          style.paddingTop = padVals[0] ?? 0;
-          style.paddingLeft = padVals[1] ?? 0;
-          style.paddingRight = padVals[1] ?? 0;
-          style.paddingBottom = padVals[2] ?? 0;
-        } else if (padVals.length === 4) {
-          style.paddingTop = padVals[0] ?? 0;
-          style.paddingRight = padVals[1] ?? 0;
-          style.paddingBottom = padVals[2] ?? 0;
-          style.paddingLeft = padVals[3] ?? 0;
+      case 'padding': {
+        resetLonghands(style, ['padding']);
+        for (const side of PADDING_FIELDS) clearLength(side);
+        const padParts = splitOutsideParens(value);
+        const padVal = padParts.length === 1 ? parseLength(padParts[0], context) : null;
+        if (padVal !== null) {
+          style.padding = padVal;
+        } else if (padParts.length >= 1 && padParts.length <= 4) {
+          // 1-4 values: top, right, bottom, left (missing sides copy their opposite)
+          const [top, right = top, bottom = top, left = right] = padParts;
+          [top, right, bottom, left].forEach((part, i) => {
+            if (!setLength(PADDING_FIELDS[i], part)) style[PADDING_FIELDS[i]] = 0;
+          });
         }
         break;
+      }
       case 'padding-top':
-        const pt = parseLength(value);
-        if (pt !== null) style.paddingTop = pt;
+        setLength('paddingTop', value);
         break;
       case 'padding-right':
-        const pr = parseLength(value);
-        if (pr !== null) style.paddingRight = pr;
+        setLength('paddingRight', value);
         break;
       case 'padding-bottom':
-        const pb = parseLength(value);
-        if (pb !== null) style.paddingBottom = pb;
+        setLength('paddingBottom', value);
         break;
       case 'padding-left':
-        const pl = parseLength(value);
-        if (pl !== null) style.paddingLeft = pl;
+        setLength('paddingLeft', value);
         break;
 
       // Margin
-      case 'margin':
-        const marVals = value.split(/\s+/).map(v => parseLength(v));
-        if (marVals.length === 1 && marVals[0] !== null) {
-          style.margin = marVals[0];
-        } else if (marVals.length >= 2) {
-          style.marginTop = marVals[0] ?? 0;
-          style.marginRight = marVals[1] ?? 0;
-          style.marginBottom = marVals.length > 2 ? marVals[2] ?? 0 : marVals[0] ?? 0;
-          style.marginLeft = marVals.length > 3 ? marVals[3] ?? 0 : marVals[1] ?? 0;
+      case 'margin': {
+        resetLonghands(style, ['margin']);
+        for (const side of MARGIN_FIELDS) clearLength(side);
+        const marParts = splitOutsideParens(value);
+        const marVal = marParts.length === 1 ? parseLength(marParts[0], context) : null;
+        if (marVal !== null) {
+          style.margin = marVal;
+        } else if (marParts.length >= 2 && marParts.length <= 4) {
+          const [top, right, bottom = top, left = right] = marParts;
+          [top, right, bottom, left].forEach((part, i) => {
+            if (!setLength(MARGIN_FIELDS[i], part)) style[MARGIN_FIELDS[i]] = 0;
+          });
+        } else if (marParts.length === 1) {
+          for (const side of MARGIN_FIELDS) setLength(side, marParts[0]);
         }
         break;
+      }
       case 'margin-top':
-        if (value === 'auto') {
-          style.marginTop = 'auto';
-        } else {
-          const mt = parseLength(value);
-          if (mt !== null) style.marginTop = mt;
-        }
-        break;
       case 'margin-right':
-        if (value === 'auto') {
-          style.marginRight = 'auto';
-        } else {
-          const mr = parseLength(value);
-          if (mr !== null) style.marginRight = mr;
-        }
-        break;
       case 'margin-bottom':
+      case 'margin-left': {
+        const marginField = MARGIN_FIELDS[['margin-top', 'margin-right', 'margin-bottom', 'margin-left'].indexOf(prop)];
         if (value === 'auto') {
-          style.marginBottom = 'auto';
-        } else {
-          const mb = parseLength(value);
-          if (mb !== null) style.marginBottom = mb;
-        }
-        break;
-      case 'margin-left':
-        if (value === 'auto') {
-          style.marginLeft = 'auto';
+          clearLength(marginField);
+          style[marginField] = 'auto';
         } else {
-          const ml = parseLength(value);
-          if (ml !== null) style.marginLeft = ml;
+          setLength(marginField, value);
         }
         break;
+      }
 
       // Background
       case 'background-color':
-        const bgc = parseColor(value);
+        const bgc = parseColor(value, context.currentColor);
         if (bgc) style.backgroundColor = bgc;
         break;
       case 'background':
+        resetLonghands(style, ['backgroundColor', 'backgroundImage', 'backgroundGradient', 'backgroundRadialGradient']);
         // Check for gradients first
         if (value.includes('linear-gradient')) {
-          const gradient = parseLinearGradient(value);
+          const gradient = parseLinearGradient(value, context.currentColor);
           if (gradient) style.backgroundGradient = gradient;
         } else if (value.includes('radial-gradient')) {
-          const radialGradient = parseRadialGradient(value);
+          const radialGradient = parseRadialGradient(value, context.currentColor);
           if (radialGradient) style.backgroundRadialGradient = radialGradient;
         } else {
-          const bg = parseColor(value);
+          const bg = parseColor(value, context.currentColor);
           if (bg) style.backgroundColor = bg;
         }
         break;
 
       // Border
       case 'border-radius':
+        resetLonghands(style, ['borderRadius', 'borderRadiusPercent', 'borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomRightRadius', 'borderBottomLeftRadius']);
         // Handle percentage values (e.g., 50% for circles)
         const percentMatch = value.match(/^(\d+)%$/);
         if (percentMatch) {
           style.borderRadiusPercent = parseInt(percentMatch[1], 10);
         } else {
-          const brVals = value.split(/\s+/).map(v => parseLength(v));
+          const brVals = splitOutsideParens(value.split('/')[0]).map(v => parseLength(v, context));
           if (brVals.length === 1 && brVals[0] !== null) {
             style.borderRadius = brVals[0];
           } else if (brVals.length === 2) {
@@ -998,27 +1016,27 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
         }
         break;
       case 'border-top-left-radius':
-        const btlr = parseLength(value);
+        const btlr = parseLength(value, context);
         if (btlr !== null) style.borderTopLeftRadius = btlr;
         break;
       case 'border-top-right-radius':
-        const btrr = parseLength(value);
+        const btrr = parseLength(value, context);
         if (btrr !== null) style.borderTopRightRadius = btrr;
         break;
       case 'border-bottom-right-radius':
-        const bbrr = parseLength(value);
+        const bbrr = parseLength(value, context);
         if (bbrr !== null) style.borderBottomRightRadius = bbrr;
         break;
       case 'border-bottom-left-radius':
-        const bblr = parseLength(value);
+        const bblr = parseLength(value, context);
         if (bblr !== null) style.borderBottomLeftRadius = bblr;
         break;
       case 'border-width':
-        const bw = parseLength(value);
+        const bw = parseLength(value, context);
         if (bw !== null) style.borderWidth = bw;
         break;
       case 'border-color':
-        const bc = parseColor(value);
+        const bc = parseColor(value, context.currentColor);
         if (bc) style.borderColor = bc;
         break;
       case 'border-style':
@@ -1027,27 +1045,20 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
         }
         break;
       case 'border': {
-        // Extract rgba/rgb function first (contains spaces)
-        const colorFuncMatch = value.match(/rgba?\s*\([^)]+\)/i);
-        let colorPart = '';
-        let restParts = value;
-        if (colorFuncMatch) {
-          colorPart = colorFuncMatch[0];
-          restParts = value.replace(colorPart, '').trim();
-          const bcp = parseColor(colorPart);
-          if (bcp) style.borderColor = bcp;
-        }
-        // Parse remaining parts (width, style, hex color)
-        const borderParts = restParts.split(/\s+/).filter(Boolean);
-        for (const part of borderParts) {
-          const bwp = parseLength(part);
+        resetLonghands(style, [
+          'borderWidth', 'borderColor', 'borderStyle',
+          'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+          'borderTopColor', 'borderRightColor', 'borderBottomColor', 'borderLeftColor',
+        ]);
+        // Color functions contain spaces, so split outside parentheses
+        for (const part of splitOutsideParens(value)) {
+          const bwp = parseLength(part, context);
           if (bwp !== null) {
             style.borderWidth = bwp;
           } else if (['solid', 'dashed', 'dotted', 'none'].includes(part)) {
             style.borderStyle = part as ParsedStyle['borderStyle'];
-          } else if (!colorPart) {
-            // Only try to parse color if we didn't find rgba/rgb
-            const bcp = parseColor(part);
+          } else {
+            const bcp = parseColor(part, context.currentColor);
             if (bcp) style.borderColor = bcp;
           }
         }
@@ -1057,33 +1068,17 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
       case 'border-right':
       case 'border-bottom':
       case 'border-left': {
-        // Extract rgba/rgb function first (contains spaces)
-        const sideColorFuncMatch = value.match(/rgba?\s*\([^)]+\)/i);
-        let sideColorPart = '';
-        let sideRestParts = value;
         const side = prop.replace('border-', '');
-        if (sideColorFuncMatch) {
-          sideColorPart = sideColorFuncMatch[0];
-          sideRestParts = value.replace(sideColorPart, '').trim();
-          const sbc = parseColor(sideColorPart);
-          if (sbc) {
-            if (side === 'top') style.borderTopColor = sbc;
-            else if (side === 'right') style.borderRightColor = sbc;
-            else if (side === 'bottom') style.borderBottomColor = sbc;
-            else if (side === 'left') style.borderLeftColor = sbc;
-          }
-        }
-        // Parse remaining parts (width, style, hex color)
-        const sideBorderParts = sideRestParts.split(/\s+/).filter(Boolean);
-        for (const part of sideBorderParts) {
-          const sbw = parseLength(part);
+        // Color functions contain spaces, so split outside parentheses
+        for (const part of splitOutsideParens(value)) {
+          const sbw = parseLength(part, context);
           if (sbw !== null) {
             if (side === 'top') style.borderTopWidth = sbw;
             else if (side === 'right') style.borderRightWidth = sbw;
             else if (side === 'bottom') style.borderBottomWidth = sbw;
             else if (side === 'left') style.borderLeftWidth = sbw;
-          } else if (!['solid', 'dashed', 'dotted', 'none'].includes(part) && !sideColorPart) {
-            const sbc = parseColor(part);
+          } else if (!['solid', 'dashed', 'dotted', 'none'].includes(part)) {
+            const sbc = parseColor(part, context.currentColor);
             if (sbc) {
               if (side === 'top') style.borderTopColor = sbc;
               else if (side === 'right') style.borderRightColor = sbc;
@@ -1097,13 +1092,14 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
 
       // Typography
       case 'color':
-        const textColor = parseColor(value);
+        const textColor = parseColor(value, context.currentColor);
         if (textColor) style.color = textColor;
         break;
-      case 'font-size':
-        const fs = parseLength(value);
+      case 'font-size': {
+        const fs = computeFontSize(value, context.parentFontSize, context.rootFontSize, context.viewport);
         if (fs !== null) style.fontSize = fs;
         break;
+      }
       case 'font-weight':
         if (value === 'normal') style.fontWeight = 400;
         else if (value === 'bold') style.fontWeight = 700;
@@ -1119,33 +1115,40 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
           style.fontStyle = 'normal';
         }
         break;
-      case 'font-family':
-        style.fontFamily = value.replace(/["']/g, '').split(',')[0].trim();
+      case 'font-family': {
+        const families = parseFontFamilies(value);
+        if (families.length > 0) style.fontFamily = families;
         break;
+      }
       case 'text-align':
         if (['left', 'center', 'right', 'justify'].includes(value)) {
           style.textAlign = value as ParsedStyle['textAlign'];
         }
         break;
-      case 'line-height':
-        // line-height can be unitless (multiplier) or with unit (px, em)
-        const lhMatch = value.match(/^([\d.]+)(px|em|rem)?$/);
-        if (lhMatch) {
-          const num = parseFloat(lhMatch[1]);
-          const unit = lhMatch[2];
-          if (unit) {
-            // Has unit - parse as length
-            const lh = parseLength(value);
-            if (lh !== null) style.lineHeight = lh;
-          } else {
-            // Unitless - store as negative to indicate it's a multiplier
-            // Will be converted to px in plugin using fontSize * multiplier
-            style.lineHeight = -num; // Negative indicates multiplier
-          }
+      case 'line-height': {
+        // line-height can be unitless (multiplier), a percentage or a length
+        if (value === 'normal') {
+          delete style.lineHeight;
+          break;
         }
+        const multiplier = parseCssNumber(value);
+        if (multiplier !== null) {
+          // Unitless - store as negative to indicate it's a multiplier
+          // Will be converted to px in plugin using fontSize * multiplier
+          style.lineHeight = -multiplier; // Negative indicates multiplier
+          break;
+        }
+        const lineHeightLength = parseCssLength(value, context);
+        const lh = lineHeightLength ? resolveCssLength(lineHeightLength, {
+          percentBase: context.fontSize,
+          viewportWidth: context.viewport.width,
+          viewportHeight: context.viewport.height,
+        }) : null;
+        if (lh !== null) style.lineHeight = lh;
         break;
+      }
       case 'letter-spacing':
-        const ls = parseLength(value);
+        const ls = value === 'normal' ? 0 : parseLength(value, context);
         if (ls !== null) style.letterSpacing = ls;
         break;
       case 'text-decoration':
@@ -1159,7 +1162,7 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
         }
         break;
       case 'white-space':
-        if (['normal', 'nowrap', 'pre', 'pre-wrap', 'pre-line'].includes(value)) {
+        if (['normal', 'nowrap', 'pre', 'pre-wrap', 'pre-line', 'break-spaces'].includes(value)) {
           style.whiteSpace = value as ParsedStyle['whiteSpace'];
         }
         break;
@@ -1175,10 +1178,10 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
         if (!isNaN(op)) style.opacity = Math.max(0, Math.min(1, op));
         break;
       case 'box-shadow':
-        style.boxShadow = parseBoxShadow(value);
+        style.boxShadow = parseBoxShadow(value, context.currentColor);
         break;
       case 'text-shadow':
-        style.textShadow = parseBoxShadow(value); // Same format as box-shadow
+        style.textShadow = parseBoxShadow(value, context.currentColor); // Same format as box-shadow
         break;
       case 'visibility':
         if (['visible', 'hidden'].includes(value)) {
@@ -1267,6 +1270,93 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
         }
         break;
 
+      // Grid container
+      case 'grid-template-columns':
+      case 'grid-template-rows': {
+        const key = prop === 'grid-template-columns' ? 'gridTemplateColumns' : 'gridTemplateRows';
+        const template = value === 'none' ? null : parseGridTemplate(value, context);
+        if (template) style[key] = template;
+        else delete style[key];
+        break;
+      }
+      case 'grid-template-areas': {
+        const areas = value === 'none' ? null : parseGridTemplateAreas(value);
+        if (areas) style.gridTemplateAreas = areas;
+        else delete style.gridTemplateAreas;
+        break;
+      }
+      case 'grid-template': {
+        // Only the "<rows> / <columns>" form; area strings go through grid-template-areas
+        resetLonghands(style, ['gridTemplateRows', 'gridTemplateColumns', 'gridTemplateAreas']);
+        const [rowsValue, columnsValue] = value.split('/');
+        if (columnsValue === undefined || /["']/.test(rowsValue)) break;
+        const rows = parseGridTemplate(rowsValue.trim(), context);
+        const columns = parseGridTemplate(columnsValue.trim(), context);
+        if (rows) style.gridTemplateRows = rows;
+        if (columns) style.gridTemplateColumns = columns;
+        break;
+      }
+      case 'grid-auto-flow':
+        style.gridAutoFlow = value.includes('column') ? 'column' : 'row';
+        break;
+      case 'grid-auto-columns':
+      case 'grid-auto-rows': {
+        // Repeating implicit track lists use their first track
+        const track = parseGridTrack(splitOutsideParens(value)[0] || '', context);
+        if (track) style[prop === 'grid-auto-columns' ? 'gridAutoColumns' : 'gridAutoRows'] = track;
+        break;
+      }
+      case 'justify-items': {
+        const justifyItems = parseGridAlignment(value);
+        if (justifyItems) style.justifyItems = justifyItems;
+        break;
+      }
+
+      // Grid item
+      case 'grid-column':
+      case 'grid-row': {
+        const placement = parseGridPlacement(value);
+        if (placement) style[prop === 'grid-column' ? 'gridColumn' : 'gridRow'] = placement;
+        break;
+      }
+      case 'grid-column-start':
+      case 'grid-column-end':
+      case 'grid-row-start':
+      case 'grid-row-end': {
+        const line = parseGridLine(value);
+        if (!line) break;
+        const key = prop.startsWith('grid-column') ? 'gridColumn' : 'gridRow';
+        const side = prop.endsWith('start') ? 'start' : 'end';
+        const placement: GridPlacement = { ...style[key] };
+        if (line.line !== undefined) placement[side] = line.line;
+        else delete placement[side];
+        if (line.span !== undefined) placement.span = line.span;
+        style[key] = placement;
+        break;
+      }
+      case 'grid-area': {
+        resetLonghands(style, ['gridArea', 'gridRow', 'gridColumn']);
+        if (!value.includes('/')) {
+          const line = parseGridLine(value);
+          // A bare name refers to grid-template-areas
+          if (!line && /^[a-z_-][\w-]*$/i.test(value)) style.gridArea = value;
+          else if (line) style.gridRow = parseGridPlacement(value) ?? undefined;
+          break;
+        }
+        // row-start / column-start / row-end / column-end
+        const [rowStart, columnStart = 'auto', rowEnd = 'auto', columnEnd = 'auto'] = value.split('/').map(part => part.trim());
+        const rowPlacement = parseGridPlacement(`${rowStart} / ${rowEnd}`);
+        const columnPlacement = parseGridPlacement(`${columnStart} / ${columnEnd}`);
+        if (rowPlacement) style.gridRow = rowPlacement;
+        if (columnPlacement) style.gridColumn = columnPlacement;
+        break;
+      }
+      case 'justify-self': {
+        const justifySelf = parseGridAlignment(value);
+        if (justifySelf) style.justifySelf = justifySelf;
+        break;
+      }
+
       // Overflow
       case 'overflow':
       case 'overflow-x':
@@ -1281,11 +1371,237 @@ function parseInlineStyle(styleStr: string): ParsedStyle {
   return style;
 }
 
+// Shared state for parsing one HTML document
+interface ParseContext {
+  // Directory for resolving relative image paths
+  basePath?: string;
+  // The HTML being parsed (inline SVG is copied from it verbatim)
+  source: string;
+  // Rules from every <style> block in the document
+  stylesheet: Stylesheet;
+  // Global token values per mode, for deciding which values to bind to variables
+  tokenValues: Map<string, CustomProperties>;
+  // Font size of the <html> element (rem)
+  rootFontSize: number;
+  // Rendering viewport for vw/vh and @media queries
+  viewport: MediaEnvironment;
+  // Set while re-parsing an element in a state for its state variants
+  interaction?: InteractionState;
+  // <img> sources loaded so far
+  images: ImageCache;
+}
+
+// Computed values passed from a parent element to its children
+interface InheritedValues {
+  customProperties: CustomProperties;
+  // Active variable mode (changed by data-theme attributes)
+  tokenMode: string;
+  // Token behind the inherited text color
+  colorToken?: string;
+  // Computed font size (em and % font sizes refer to it)
+  fontSize: number;
+  // Computed text color (currentColor)
+  color: RGBA;
+  // Inherited style fields of the parent, as declared on it or an ancestor
+  style: InheritedStyle;
+}
+
+// Inherited CSS properties and the ParsedStyle field each one sets
+// (text-decoration isn't inherited, but propagates to all descendant text the same way)
+const INHERITED_PROPERTIES = {
+  'color': 'color',
+  'font-size': 'fontSize',
+  'font-weight': 'fontWeight',
+  'font-style': 'fontStyle',
+  'font-family': 'fontFamily',
+  'text-align': 'textAlign',
+  'line-height': 'lineHeight',
+  'letter-spacing': 'letterSpacing',
+  'text-decoration': 'textDecoration',
+  'text-transform': 'textTransform',
+  'white-space': 'whiteSpace',
+  'visibility': 'visibility',
+} as const;
+
+type InheritedField = typeof INHERITED_PROPERTIES[keyof typeof INHERITED_PROPERTIES];
+type InheritedStyle = Pick<ParsedStyle, InheritedField>;
+
+// Values that reset an inherited property to its initial value instead of inheriting it
+const RESET_KEYWORDS = ['initial', 'revert', 'revert-layer'];
+
+const ROOT_INHERITED: InheritedValues = {
+  customProperties: {},
+  tokenMode: DEFAULT_TOKEN_MODE,
+  fontSize: DEFAULT_LENGTH_CONTEXT.fontSize,
+  color: DEFAULT_STYLE_CONTEXT.currentColor,
+  style: {},
+};
+
+// Resolve bolder/lighter against the parent's weight (CSS Fonts relative weight table)
+function relativeFontWeight(keyword: string, parentWeight: number): number {
+  if (keyword === 'bolder') {
+    if (parentWeight < 350) return 400;
+    if (parentWeight < 550) return 700;
+    return Math.max(parentWeight, 900);
+  }
+  if (parentWeight < 100) return parentWeight;
+  if (parentWeight < 550) return 100;
+  if (parentWeight < 750) return 400;
+  return 700;
+}
+
+// Fill in inherited properties the element doesn't set itself and return what its children inherit
+function inheritStyle(styles: ParsedStyle, declarations: CssDeclaration[], parent: InheritedStyle): InheritedStyle {
+  // The last declaration of a property is the cascade winner
+  const winning = new Map<string, string>();
+  for (const declaration of declarations) {
+    winning.set(declaration.property, declaration.value.trim().toLowerCase());
+  }
+
+  const inherited: InheritedStyle = {};
+  for (const [property, field] of Object.entries(INHERITED_PROPERTIES) as [string, InheritedField][]) {
+    const value = winning.get(property);
+    const parentValue = parent[field];
+
+    if (value !== undefined && (RESET_KEYWORDS.includes(value) || (property === 'line-height' && value === 'normal'))) {
+      // Explicit initial value: neither the declaration nor the parent's value applies
+      // (color is kept explicit so the plugin doesn't fall back to the parent's color)
+      if (field === 'color') styles.color = DEFAULT_STYLE_CONTEXT.currentColor;
+      else delete styles[field];
+    } else if (property === 'font-weight' && (value === 'bolder' || value === 'lighter')) {
+      const parentWeight = parentValue === 'bold' ? 700 : typeof parentValue === 'number' ? parentValue : 400;
+      styles.fontWeight = relativeFontWeight(value, parentWeight);
+    } else if (styles[field] === undefined && parentValue !== undefined) {
+      // Not set, or set to inherit/unset
+      (styles as Record<InheritedField, unknown>)[field] = parentValue;
+    }
+
+    if (styles[field] !== undefined) {
+      (inherited as Record<InheritedField, unknown>)[field] = styles[field];
+    }
+  }
+  return inherited;
+}
+
+// Cascaded values of one element, before conversion to ParsedStyle
+interface ComputedDeclarations {
+  declarations: CssDeclaration[];
+  // The author's winning declarations as written (var() unresolved), e.g. "width: 100px; gap: var(--gap)"
+  declaredStyle: string;
+  tokens: TokenBindings;
+  styleContext: StyleContext;
+  inherited: InheritedValues;
+}
+
+// CSS text of the winning declaration per property, in cascade order
+function serializeDeclarations(declarations: CssDeclaration[]): string {
+  const winning = new Map<string, CssDeclaration>();
+  for (const declaration of declarations) {
+    winning.delete(declaration.property);
+    winning.set(declaration.property, declaration);
+  }
+  return Array.from(winning.values(), ({ property, value, important }) =>
+    `${property}: ${value}${important ? ' !important' : ''}`
+  ).join('; ');
+}
+
+// Run the cascade, custom property resolution and token tracking for an element
+function computeDeclarations(element: HTMLElement, context: ParseContext, inherited: InheritedValues): ComputedDeclarations {
+  const cascaded = cascadeDeclarations(element, context.stylesheet, context.viewport, context.interaction);
+  const customProperties = computeCustomProperties(cascaded, inherited.customProperties);
+  const declarations = resolveVarReferences(cascaded, customProperties);
+
+  const theme = element.getAttribute('data-theme');
+  const tokenMode = theme && context.tokenValues.has(theme) ? theme : inherited.tokenMode;
+  const tokens = collectTokenBindings(cascaded, customProperties, context.tokenValues.get(tokenMode) || {});
+
+  // color inherits, and so does the token it came from
+  const declaresColor = declarations.some(declaration => declaration.property === 'color');
+  if (!declaresColor && inherited.colorToken) tokens.color = inherited.colorToken;
+
+  // The element's own font size comes first: em in every other property refers to it
+  let fontSize = inherited.fontSize;
+  for (const declaration of declarations) {
+    if (declaration.property !== 'font-size') continue;
+    fontSize = computeFontSize(declaration.value, inherited.fontSize, context.rootFontSize, context.viewport) ?? fontSize;
+  }
+
+  // Likewise the computed color is what currentColor refers to (color: currentColor inherits)
+  let color = inherited.color;
+  for (const declaration of declarations) {
+    if (declaration.property !== 'color') continue;
+    color = RESET_KEYWORDS.includes(declaration.value.trim().toLowerCase())
+      ? DEFAULT_STYLE_CONTEXT.currentColor
+      : parseColor(declaration.value, inherited.color) ?? color;
+  }
+
+  return {
+    declarations,
+    declaredStyle: serializeDeclarations(cascaded.filter(declaration => !isUserAgentDeclaration(declaration))),
+    tokens,
+    styleContext: {
+      fontSize,
+      rootFontSize: context.rootFontSize,
+      parentFontSize: inherited.fontSize,
+      viewport: context.viewport,
+      currentColor: color,
+    },
+    inherited: { customProperties, tokenMode, colorToken: tokens.color, fontSize, color, style: inherited.style },
+  };
+}
+
+// Convert token modes to typed design tokens (colors and px lengths only)
+function buildDesignTokens(modes: TokenModes, tokenValues: Map<string, CustomProperties>): DesignTokens | undefined {
+  const modeNames = Array.from(modes.keys());
+  const defaults = tokenValues.get(DEFAULT_TOKEN_MODE) || {};
+  const tokens: DesignToken[] = [];
+
+  for (const [property, defaultValue] of Object.entries(defaults)) {
+    const type = parseColor(defaultValue) ? 'COLOR' : parseLength(defaultValue) !== null ? 'FLOAT' : null;
+    if (!type) continue;
+
+    const values: DesignToken['values'] = {};
+    for (const mode of modeNames) {
+      const declared = modes.get(mode)?.[property] ?? modes.get(DEFAULT_TOKEN_MODE)?.[property];
+      const reference = declared ? getVarReference(declared) : null;
+      if (reference && reference !== property && defaults[reference] !== undefined) {
+        values[mode] = { alias: reference.slice(2) };
+        continue;
+      }
+      const resolved = tokenValues.get(mode)?.[property] ?? defaultValue;
+      const value = type === 'COLOR' ? parseColor(resolved) : parseLength(resolved);
+      if (value !== null) values[mode] = value;
+    }
+
+    if (values[DEFAULT_TOKEN_MODE] !== undefined) {
+      tokens.push({ name: property.slice(2), type, values });
+    }
+  }
+
+  // Drop aliases to tokens that were skipped or have another type
+  const types = new Map(tokens.map(token => [token.name, token.type]));
+  for (const token of tokens) {
+    for (const [mode, value] of Object.entries(token.values)) {
+      if (typeof value === 'object' && 'alias' in value && types.get(value.alias) !== token.type) {
+        delete token.values[mode];
+      }
+    }
+  }
+
+  const validTokens = tokens.filter(token => token.values[DEFAULT_TOKEN_MODE] !== undefined);
+  if (validTokens.length === 0) return undefined;
+  return { modes: modeNames, tokens: validTokens };
+}
+
 // Parse element using node-html-parser (async for web image support)
-async function parseElement(element: HTMLElement, basePath?: string): Promise<ParsedElement> {
+async function parseElement(element: HTMLElement, context: ParseContext, inherited: InheritedValues = ROOT_INHERITED): Promise<ParsedElement> {
   const tagName = element.tagName?.toLowerCase() || 'div';
-  const styleAttr = element.getAttribute('style') || '';
-  const styles = parseInlineStyle(styleAttr);
+  const computed = computeDeclarations(element, context, inherited);
+  const styles = parseDeclarations(computed.declarations, computed.styleContext);
+  const childInherited: InheritedValues = {
+    ...computed.inherited,
+    style: inheritStyle(styles, computed.declarations, inherited.style),
+  };
 
   // Get attributes
   const attributes: Record<string, string> = {};
@@ -1295,50 +1611,29 @@ async function parseElement(element: HTMLElement, basePath?: string): Promise<Pa
     }
   }
 
-  // Get text content (direct text nodes only)
-  let textContent: string | undefined;
-  for (const child of element.childNodes) {
-    if (child instanceof TextNode) {
-      const text = child.text?.trim();
-      if (text) {
-        textContent = (textContent || '') + text;
-      }
-    }
-  }
+  // Inline SVG stays markup for the plugin to turn into vectors, so its content isn't parsed
+  const isSvg = tagName === 'svg';
+
+  // Get text content (direct text nodes and <br> line breaks, with white-space applied)
+  const textContent = isSvg ? '' : extractText(element, styles.whiteSpace);
 
   // Parse children (only HTMLElements, not text nodes) - async
   const children: ParsedElement[] = [];
-  for (const child of element.childNodes) {
-    if (child instanceof HTMLElement) {
-      children.push(await parseElement(child, basePath));
+  for (const child of isSvg ? [] : element.childNodes) {
+    if (isRenderedElement(child)) {
+      children.push(await parseElement(child, context, childInherited));
     }
   }
 
-  // Handle img elements - load image as Base64 (local or downloaded)
+  // Handle img elements - load image as Base64 (local, downloaded or data: URI)
   let imageData: string | undefined;
   let imageWidth: number | undefined;
   let imageHeight: number | undefined;
+  let imageSvg: string | null = null;
 
   if (tagName === 'img') {
-    const src = element.getAttribute('src');
-    if (src) {
-      if (src.startsWith('http://') || src.startsWith('https://')) {
-        // Web URL - download and convert to Base64
-        console.log(`Downloading web image: ${src.substring(0, 80)}...`);
-        const downloadResult = await downloadImageAsBase64(src);
-        if (downloadResult) {
-          imageData = downloadResult.data;
-        }
-      } else if (!src.startsWith('data:')) {
-        // Local file path - load and convert to Base64
-        const imageResult = await loadImageAsBase64(src, basePath);
-        if (imageResult) {
-          imageData = imageResult.data;
-          imageWidth = imageResult.width;
-          imageHeight = imageResult.height;
-        }
-      }
-    }
+    const src = element.getAttribute('src')?.trim();
+    const loaded = src ? await loadImage(src, context) : null;
     // Parse width/height from attributes if present
     const attrWidth = element.getAttribute('width');
     const attrHeight = element.getAttribute('height');
@@ -1350,6 +1645,16 @@ async function parseElement(element: HTMLElement, basePath?: string): Promise<Pa
       const h = parseInt(attrHeight, 10);
       if (!isNaN(h)) styles.height = h;
     }
+
+    if (loaded && 'svg' in loaded) {
+      // SVG sources become vectors, sized like the <img> once its attributes are read
+      imageSvg = serializeSvgImage(loaded.svg, styles);
+      if (!imageSvg) console.warn(`No <svg> element in image: ${src?.substring(0, 60)}`);
+    } else if (loaded) {
+      imageData = loaded.data;
+      imageWidth = loaded.width;
+      imageHeight = loaded.height;
+    }
   }
 
   const result: ParsedElement = {
@@ -1360,6 +1665,21 @@ async function parseElement(element: HTMLElement, basePath?: string): Promise<Pa
     children,
   };
 
+  if (isSvg) {
+    result.svg = serializeSvg(element, context.source, computed.declarations, styles, computed.styleContext.currentColor);
+  } else if (imageSvg) {
+    result.svg = imageSvg;
+  }
+  if (computed.declaredStyle) {
+    result.declaredStyle = computed.declaredStyle;
+  }
+  if (Object.keys(computed.tokens).length > 0) {
+    result.tokens = computed.tokens;
+  }
+  if (childInherited.tokenMode !== inherited.tokenMode) {
+    result.tokenMode = childInherited.tokenMode;
+  }
+
   // Only add image fields if they have values (avoid sending undefined fields)
   if (imageData) {
     result.imageData = imageData;
@@ -1367,35 +1687,249 @@ async function parseElement(element: HTMLElement, basePath?: string): Promise<Pa
     if (imageHeight) result.imageHeight = imageHeight;
   }
 
+  // Interactive elements get a variant per state their stylesheet changes
+  // (not inside another element's state rendering, and not when already disabled)
+  if (!context.interaction && isInteractiveElement(element) && element.getAttribute('disabled') === undefined) {
+    const states = await parseStateVariants(element, context, inherited, result);
+    if (states.length > 0) result.states = states;
+  }
+
   return result;
 }
 
-// Parse HTML string to ParsedElement array (async for web image support)
-// basePath: Optional directory path for resolving relative image paths
-export async function parseHTML(html: string, basePath?: string): Promise<ParsedElement[]> {
+// Pseudo-classes that apply in each state variant (pressing implies hovering)
+const INTERACTION_STATES: { state: InteractionStateName; pseudoClasses: string[] }[] = [
+  { state: 'Hover', pseudoClasses: ['hover'] },
+  { state: 'Pressed', pseudoClasses: ['hover', 'active'] },
+  { state: 'Focused', pseudoClasses: ['focus', 'focus-visible', 'focus-within'] },
+  { state: 'Disabled', pseudoClasses: ['disabled'] },
+];
+
+const INTERACTIVE_TAGS = ['button', 'select', 'textarea', 'summary'];
+const INTERACTIVE_ROLES = ['button', 'link', 'tab', 'checkbox', 'radio', 'switch', 'menuitem', 'option'];
+
+// Elements a user can hover, press or focus
+function isInteractiveElement(element: HTMLElement): boolean {
+  const tagName = element.tagName?.toLowerCase();
+  if (INTERACTIVE_TAGS.includes(tagName)) return true;
+  if (tagName === 'a') return element.getAttribute('href') !== undefined;
+  if (tagName === 'input') return element.getAttribute('type')?.toLowerCase() !== 'hidden';
+  const role = element.getAttribute('role')?.toLowerCase();
+  return (role !== undefined && INTERACTIVE_ROLES.includes(role)) || element.getAttribute('tabindex') !== undefined;
+}
+
+// Serialize a parsed subtree for comparison, ignoring nested state variants
+// and the declared CSS (a state rule may restate the default values)
+function serializeRendering(element: ParsedElement): string {
+  return JSON.stringify(element, (key, value) => key === 'states' || key === 'declaredStyle' ? undefined : value);
+}
+
+// Re-parse an interactive element in each state that has matching rules,
+// keeping only the states that render differently from the default
+async function parseStateVariants(
+  element: HTMLElement,
+  context: ParseContext,
+  inherited: InheritedValues,
+  defaultRendering: ParsedElement
+): Promise<ParsedStateVariant[]> {
+  const variants: ParsedStateVariant[] = [];
+  const defaultSerialized = serializeRendering(defaultRendering);
+
+  for (const { state, pseudoClasses } of INTERACTION_STATES) {
+    if (state === 'Disabled' && !['button', 'input', 'select', 'textarea'].includes(defaultRendering.tagName)) continue;
+    const interaction: InteractionState = { element, pseudoClasses };
+    if (!hasStateRules(context.stylesheet, context.viewport, interaction)) continue;
+
+    const rendering = await parseElement(element, { ...context, interaction }, inherited);
+    if (serializeRendering(rendering) !== defaultSerialized) {
+      variants.push({ state, element: rendering });
+    }
+  }
+  return variants;
+}
+
+// Stored with every rendered root; bump when the same HTML would parse differently
+export const PARSER_VERSION = '0.2.0';
+
+// Give every element its path in the document (tag and position among same-tag siblings,
+// e.g. "div[1]/p[2]") and a key that survives edits to unrelated parts of the HTML:
+// data-key, else #id, else its tag and position under the parent's key
+function assignElementKeys(elements: ParsedElement[], parentKey?: string, parentPath?: string): void {
+  const tagCounts = new Map<string, number>();
+  for (const element of elements) {
+    const nth = (tagCounts.get(element.tagName) ?? 0) + 1;
+    tagCounts.set(element.tagName, nth);
+
+    const { id } = element.attributes;
+    const step = `${element.tagName}[${nth}]`;
+    element.path = parentPath ? `${parentPath}/${step}` : step;
+    element.key = element.attributes['data-key'] || (id ? `#${id}` : (parentKey ? `${parentKey}/${step}` : step));
+    assignElementKeys(element.children, element.key, element.path);
+
+    // State renderings stand for the same element
+    for (const { element: variant } of element.states ?? []) {
+      variant.key = element.key;
+      variant.path = element.path;
+      assignElementKeys(variant.children, element.key, element.path);
+    }
+  }
+}
+
+// Style fields of <body> that carry over to the root frame; its size comes from the viewport
+// input instead, and text styles already reach the layers through inheritance
+const ROOT_FRAME_FIELDS: (keyof ParsedStyle)[] = [
+  'display', 'flexDirection', 'justifyContent', 'alignItems', 'gap', 'rowGap', 'columnGap', 'flexWrap',
+  'padding', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft', 'textAlign',
+  'borderRadius', 'borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomRightRadius', 'borderBottomLeftRadius',
+  'borderWidth', 'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth', 'borderStyle',
+  'borderColor', 'borderTopColor', 'borderRightColor', 'borderBottomColor', 'borderLeftColor',
+];
+const BACKGROUND_FIELDS: (keyof ParsedStyle)[] = ['backgroundColor', 'backgroundGradient', 'backgroundRadialGradient'];
+
+const PADDING_SIDES = [
+  ['paddingTop', 'marginTop'],
+  ['paddingRight', 'marginRight'],
+  ['paddingBottom', 'marginBottom'],
+  ['paddingLeft', 'marginLeft'],
+] as const;
+
+// Compute a document wrapper element (<html> or <body>) and what its children inherit
+function parseWrapperElement(element: HTMLElement, context: ParseContext, inherited: InheritedValues): { root: ParsedRootStyle; inherited: InheritedValues } {
+  const computed = computeDeclarations(element, context, inherited);
+  const styles = parseDeclarations(computed.declarations, computed.styleContext);
+  const root: ParsedRootStyle = { styles };
+  if (Object.keys(computed.tokens).length > 0) root.tokens = computed.tokens;
+  if (computed.inherited.tokenMode !== inherited.tokenMode) root.tokenMode = computed.inherited.tokenMode;
+  return {
+    root,
+    inherited: { ...computed.inherited, style: inheritStyle(styles, computed.declarations, inherited.style) },
+  };
+}
+
+// The root frame stands in for the canvas: it takes the layout, padding and border of <body>,
+// plus the background of <html> when <body> has none (browsers paint it on the canvas the same way).
+// Nothing lies outside the frame, so body margins add to its padding
+function buildRootStyle(html: ParsedRootStyle | undefined, body: ParsedRootStyle): ParsedRootStyle | undefined {
+  const hasBackground = (style: ParsedStyle) => BACKGROUND_FIELDS.some(field => style[field] !== undefined);
+  const background = hasBackground(body.styles) ? body : html && hasBackground(html.styles) ? html : undefined;
+
+  const styles: Record<string, unknown> = {};
+  for (const field of ROOT_FRAME_FIELDS) {
+    if (body.styles[field] !== undefined) styles[field] = body.styles[field];
+  }
+  for (const field of BACKGROUND_FIELDS) {
+    if (background?.styles[field] !== undefined) styles[field] = background.styles[field];
+  }
+  const rootStyles = styles as ParsedStyle;
+
+  const tokens: TokenBindings = { ...body.tokens };
+  delete tokens.backgroundColor;
+  if (background?.tokens?.backgroundColor) tokens.backgroundColor = background.tokens.backgroundColor;
+
+  const lengths: NonNullable<ParsedStyle['lengths']> = {};
+  for (const [paddingField, marginField] of PADDING_SIDES) {
+    const padding = body.styles.lengths?.[paddingField];
+    if (padding) lengths[paddingField] = padding;
+    const margin = body.styles[marginField] ?? body.styles.margin;
+    if (typeof margin !== 'number' || margin === 0) continue;
+    rootStyles[paddingField] = (body.styles[paddingField] ?? body.styles.padding ?? 0) + margin;
+    delete tokens[paddingField];
+  }
+  if (Object.keys(lengths).length > 0) rootStyles.lengths = lengths;
+
+  if (Object.keys(rootStyles).length === 0) return undefined;
+  const root: ParsedRootStyle = { styles: rootStyles };
+  if (Object.keys(tokens).length > 0) root.tokens = tokens;
+  const tokenMode = body.tokenMode ?? html?.tokenMode;
+  if (tokenMode) root.tokenMode = tokenMode;
+  return root;
+}
+
+// Settings for parsing the same HTML several times (breakpoints, component set variants)
+export interface ParseOptions {
+  // Caches shared by the parses, so each image and linked stylesheet is loaded once
+  images?: ImageCache;
+  stylesheets?: StylesheetCache;
+  // Keep the given viewport even when <meta name="viewport"> sets a fixed width
+  // (each breakpoint must lay out at its own width)
+  ignoreMetaViewport?: boolean;
+}
+
+// Parse HTML string to a ParsedDocument (async for web image support)
+// basePath: Optional directory path for resolving relative image and stylesheet paths
+// viewport: Optional device viewport; <meta name="viewport"> with a fixed width overrides it
+export async function parseHTML(
+  html: string,
+  basePath?: string,
+  viewport?: Viewport,
+  options: ParseOptions = {}
+): Promise<ParsedDocument> {
   const root = parse(html, {
     lowerCaseTagName: true,
     comment: false,
+    // Keep <pre> content as elements (the default treats it as raw text)
+    blockTextElements: { script: true, noscript: true, style: true },
   });
 
-  const elements: ParsedElement[] = [];
+  await inlineLinkedStylesheets(root, basePath, options.stylesheets);
+  const layoutViewport = options.ignoreMetaViewport ? viewport : applyMetaViewport(root, viewport);
 
-  // Get direct children that are elements
-  for (const child of root.childNodes) {
-    if (child instanceof HTMLElement) {
-      // Skip html, head, body wrapper tags
-      if (['html', 'head', 'body'].includes(child.tagName?.toLowerCase())) {
-        // Process children of these wrapper tags
-        for (const innerChild of child.childNodes) {
-          if (innerChild instanceof HTMLElement) {
-            elements.push(await parseElement(innerChild, basePath));
-          }
-        }
-      } else {
-        elements.push(await parseElement(child, basePath));
-      }
+  const tokenModes = collectTokenModes(root);
+  const tokenValues = new Map<string, CustomProperties>();
+  for (const mode of tokenModes.keys()) {
+    tokenValues.set(mode, resolveTokenMode(tokenModes, mode));
+  }
+
+  const context: ParseContext = {
+    basePath,
+    source: html,
+    stylesheet: collectStylesheet(root),
+    tokenValues,
+    rootFontSize: DEFAULT_LENGTH_CONTEXT.rootFontSize,
+    // Light is the default scheme; dark values reach Figma as a variable mode
+    viewport: { ...(layoutViewport ?? DEFAULT_VIEWPORT), colorScheme: 'light' },
+    images: options.images ?? new Map(),
+  };
+
+  // <html> and <body> don't become layers: their styles go to the root frame and pass
+  // inherited values down. Fragments get a detached <body> so body rules still apply
+  const htmlElement = root.querySelector('html');
+  const bodyElement = root.querySelector('body');
+  let inherited = ROOT_INHERITED;
+  let htmlStyle: ParsedRootStyle | undefined;
+  if (htmlElement) {
+    const wrapper = parseWrapperElement(htmlElement, context, inherited);
+    // rem refers to the font size of <html>
+    context.rootFontSize = wrapper.inherited.fontSize;
+    htmlStyle = wrapper.root;
+    inherited = wrapper.inherited;
+  }
+  const body = parseWrapperElement(bodyElement ?? parse('<body></body>').querySelector('body')!, context, inherited);
+
+  // Top-level layers: children of <body>, else of <html>, else of the fragment
+  const container = bodyElement ?? htmlElement ?? root;
+  const elements: ParsedElement[] = [];
+  for (const child of container.childNodes) {
+    if (isRenderedElement(child)) {
+      const parsed = await parseElement(child, context, body.inherited);
+      formatInlineText(child, parsed);
+      elements.push(parsed);
     }
   }
 
-  return elements;
+  assignElementKeys(elements);
+
+  const result: ParsedDocument = {
+    elements,
+    designTokens: buildDesignTokens(tokenModes, tokenValues),
+    viewport: layoutViewport,
+    source: { html, parserVersion: PARSER_VERSION },
+  };
+  const rootStyle = buildRootStyle(htmlStyle, body.root);
+  if (rootStyle) result.root = rootStyle;
+  const title = readDocumentTitle(root);
+  if (title) result.title = title;
+  const description = readMetaDescription(root);
+  if (description) result.description = description;
+  return result;
 }
@@ -0,0 +1,97 @@
+/**
+ * Image formats (MCP Server side)
+ * Detects image formats from their leading bytes (file extensions and content types lie),
+ * decodes data: URIs and uncompressed BMP files, which sharp can't read itself
+ */
+
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'avif' | 'heif' | 'tiff' | 'bmp' | 'svg';
+
+// Formats Figma accepts as image fills; the others are converted
+export const FIGMA_IMAGE_FORMATS: ImageFormat[] = ['png', 'jpeg', 'gif'];
+
+// ISO base media file brands (bytes 8-12, after "ftyp") of AVIF and HEIF images
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte);
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.subarray(start, end).toString('latin1');
+}
+
+// SVG is text: an <svg> root, possibly after an XML declaration, comments or a doctype
+function isSvg(buffer: Buffer): boolean {
+  const head = buffer.subarray(0, 1024).toString('utf8').trimStart();
+  return /^(?:<\?xml|<!--|<!doctype\s+svg|<svg[\s>])/i.test(head) && /<svg[\s>]/i.test(head);
+}
+
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') return 'gif';
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') return 'webp';
+  if (ascii(buffer, 4, 8) === 'ftyp') {
+    const brand = ascii(buffer, 8, 12);
+    if (AVIF_BRANDS.includes(brand)) return 'avif';
+    if (HEIF_BRANDS.includes(brand)) return 'heif';
+  }
+  if (startsWith(buffer, [0x49, 0x49, 0x2a, 0x00]) || startsWith(buffer, [0x4d, 0x4d, 0x00, 0x2a])) return 'tiff';
+  if (ascii(buffer, 0, 2) === 'BM' && buffer.length > 54) return 'bmp';
+  if (isSvg(buffer)) return 'svg';
+  return null;
+}
+
+// Percent-decode to bytes (a URL-encoded data URI may hold binary data)
+function percentDecode(text: string): Buffer {
+  return Buffer.concat(text.split(/(%[0-9a-f]{2})/i).map(part =>
+    /^%[0-9a-f]{2}$/i.test(part) ? Buffer.from([parseInt(part.slice(1), 16)]) : Buffer.from(part, 'utf8')
+  ));
+}
+
+// Bytes of a data: URI, base64 or URL-encoded (null when malformed)
+export function decodeDataUri(uri: string): Buffer | null {
+  const match = /^data:([^,]*),(.*)$/is.exec(uri.trim());
+  if (!match) return null;
+  const isBase64 = match[1].split(';').some(parameter => parameter.trim().toLowerCase() === 'base64');
+  const data = isBase64 ? Buffer.from(match[2].replace(/\s+/g, ''), 'base64') : percentDecode(match[2]);
+  return data.length > 0 ? data : null;
+}
+
+// Decode an uncompressed 24- or 32-bit BMP to RGBA pixels (null for other variants)
+export function decodeBmp(buffer: Buffer): { pixels: Buffer; width: number; height: number } | null {
+  const pixelOffset = buffer.readUInt32LE(10);
+  const width = buffer.readInt32LE(18);
+  const rawHeight = buffer.readInt32LE(22);
+  const bitsPerPixel = buffer.readUInt16LE(28);
+  const compression = buffer.readUInt32LE(30);
+  // BI_RGB, or BI_BITFIELDS with the usual BGRA masks
+  if ((bitsPerPixel !== 24 && bitsPerPixel !== 32) || (compression !== 0 && compression !== 3)) return null;
+
+  const height = Math.abs(rawHeight);
+  const bytesPerPixel = bitsPerPixel / 8;
+  const stride = Math.ceil((width * bitsPerPixel) / 32) * 4;
+  if (width <= 0 || height === 0 || pixelOffset + stride * height > buffer.length) return null;
+
+  const pixels = Buffer.alloc(width * height * 4);
+  let hasAlpha = false;
+  for (let y = 0; y < height; y++) {
+    // Rows are stored bottom-up unless the height is negative
+    const row = pixelOffset + stride * (rawHeight > 0 ? height - 1 - y : y);
+    for (let x = 0; x < width; x++) {
+      const source = row + x * bytesPerPixel;
+      const target = (y * width + x) * 4;
+      pixels[target] = buffer[source + 2];
+      pixels[target + 1] = buffer[source + 1];
+      pixels[target + 2] = buffer[source];
+      pixels[target + 3] = bytesPerPixel === 4 ? buffer[source + 3] : 255;
+      if (bytesPerPixel === 4 && buffer[source + 3] !== 0) hasAlpha = true;
+    }
+  }
+  // 32-bit BMPs often leave the alpha byte unused (all zero): treat them as opaque
+  if (bytesPerPixel === 4 && !hasAlpha) {
+    for (let index = 3; index < pixels.length; index += 4) pixels[index] = 255;
+  }
+  return { pixels, width, height };
+}
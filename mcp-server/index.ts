@@ -7,10 +7,13 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { getWebSocketServer } from './websocket';
-import { createComponent } from './tools/create-component';
+import { createComponent, createComponentSchema } from './tools/create-component';
+import { createComponentSet, createComponentSetSchema, createComponentSetTool } from './tools/create-component-set';
+import { updateComponent, updateComponentSchema, updateComponentTool } from './tools/update-component';
 import { getSelection } from './tools/get-selection';
 import { listComponents } from './tools/list-components';
 import { getStatus } from './tools/get-status';
+import { VIEWPORT_PRESETS } from './viewports';
 
 const WS_PORT = parseInt(process.env.FIGMA_AI_DESIGNER_PORT || '51847', 10);
 
@@ -25,17 +28,37 @@ Supported HTML elements:
 - <span>, <p>, <h1>-<h6>, <label> → Text
 - <button> → Frame with Text (styled as button)
 - <input>, <textarea> → Frame with Text (styled as input)
-- <img> → Rectangle with Image Fill (placeholder)
+- <img> → Rectangle with Image Fill (placeholder), or Vector frame for SVG sources
+- <svg> → Vector frame (createNodeFromSvg)
 - <a> → Text with link styling
 
 Supported CSS properties:
-- Layout: display (flex), flex-direction, justify-content, align-items, gap
+- Layout: display (flex, grid), flex-direction, justify-content, align-items, gap, row-gap, column-gap
 - Sizing: width, height, min-width, min-height, max-width, max-height
 - Spacing: padding, margin (all directions)
 - Background: background-color, background (solid colors)
 - Border: border-radius, border-width, border-color, border-style
-- Typography: font-size, font-weight, font-family, color, text-align, line-height, letter-spacing
+- Typography: font-size, font-weight, font-family, color, text-align, line-height, letter-spacing (inherited from ancestors like in CSS, with inherit/initial/unset and bolder/lighter)
+- Inline text: <b>, <em>, <a href>, <code>, styled <span>s etc. inside a paragraph become styled ranges (fonts, colors, decorations, links) of one text layer
+- Whitespace: CSS white-space collapsing (normal, nowrap, pre, pre-wrap, pre-line), <br> line breaks, <pre>/<code> kept verbatim in a monospace font, HTML entities decoded
+- Fonts: the full font-family fallback list (including system-ui, sans-serif, serif, monospace) is matched against fonts installed in Figma, using the nearest weight/style; the result lists every fontSubstitution
 - Effects: opacity, box-shadow
+- SVG: inline <svg> icons (Heroicons, Lucide etc.) become native vectors, with currentColor resolved to the inherited color, CSS width/height, fill and stroke applied, named from aria-label or the class
+- Images: <img> src can be a local path, an http(s) URL or a data: URI (base64 or URL-encoded); formats are detected from the file contents, SVG sources become vectors and WebP, AVIF, HEIF, TIFF and BMP are converted to PNG/JPEG
+- Colors: hex (3/4/6/8 digits), all CSS named colors, currentColor, rgb()/hsl()/hwb() (comma or space syntax, / alpha), lab(), lch(), oklab(), oklch(), color(display-p3 ...), color-mix(), relative colors (rgb(from ...)) and light-dark(); wide-gamut colors are gamut mapped to sRGB
+- Stylesheets: <style> blocks with type, class, ID, attribute, descendant/child selectors and :first-child/:nth-child, resolved by specificity, !important and source order
+- Custom properties: --token declarations (inherited from ancestors and :root) and var() with fallbacks in any property
+- Design tokens: color and px custom properties on :root become Figma Variables (modes from [data-theme] and prefers-color-scheme) bound to fills, strokes, gap, padding and radius
+- Grid: display: grid with grid-template-columns/rows (px, %, fr, auto, minmax(), repeat() incl. auto-fill/auto-fit), grid-template-areas, grid-column/grid-row spans and gap, built as Figma grid auto layout
+- Units: px, em (element font size), rem, %, vw, vh, vmin, vmax, ch, ex, pt and calc()/min()/max()/clamp() with nesting and mixed units
+- Viewport: the viewport input (e.g. "iphone-15" → 393×852) or <meta name="viewport" content="width=..."> (ignored when breakpoints are given) fixes the root frame width and is the base for top-level %, vw and vh
+- Responsive: @media queries (min-/max-width, range syntax, orientation, prefers-color-scheme, and/or/not) are evaluated against the viewport; the breakpoints input (e.g. [375, 768, 1440]) renders one frame per viewport side by side, named "Name / 375"
+- Document: full pages work as-is: <body> styles (layout, padding, border, background, or the <html> background) go to the root frame, <title> names it, <meta name="description"> describes it and <link rel="stylesheet"> sheets join the cascade (http(s) sheets are downloaded once per call; relative paths are skipped since the HTML has no base directory; web font services are skipped)
+- Screens: with layout "screens", each <section data-screen="Login"> (or each top-level element) becomes its own frame, left to right with the spacing input between them; section: true wraps them in a Figma Section named after the flow
+- Prototype: between screens, <a href="#checkout"> and data-navigate="Checkout" (a screen name or an id inside it) become click-to-navigate reactions, data-overlay="Menu" opens a screen as an overlay, data-navigate="back"/"close" go back or close the overlay, and the first screen starts a flow (a link inside running text makes its whole text layer clickable)
+- Output: a ComponentNode per rendering by default (listed by list_components, with description, documentation link and key), plain frames with output "frame", or a component set with one variant per breakpoint with output "component-set"
+- States: :hover, :active, :focus and :disabled rules on buttons, links and form fields become a component set (State=Default/Hover/Pressed/Focused/Disabled) with prototype reactions between the states; the layout uses an instance of the Default state
+- Result: the created node plus an elements list mapping source elements to their nodes by path (e.g. "div[1]/p[2]"), id and data-name, with node ID, type and final size (layers inside state-variant instances included); by default only elements with an id or data-name are listed (detail "all" lists every element); with several frames each entry in frames carries its own list
 
 Example:
 <div style="display: flex; flex-direction: column; gap: 16px; padding: 24px; background-color: #ffffff; border-radius: 12px;">
@@ -50,20 +73,144 @@ Example:
       properties: {
         html: {
           type: 'string',
-          description: 'The HTML code to convert to a Figma component. Can include inline styles.',
+          description: 'The HTML code to convert to a Figma component. Can include inline styles and <style> blocks.',
         },
         name: {
           type: 'string',
-          description: 'Optional name for the created component. Defaults to "AI Component".',
+          description: 'Optional name for the created component. Defaults to the <title> of the HTML, else "AI Component".',
         },
         parentId: {
           type: 'string',
           description: 'Optional Figma node ID to place the component inside.',
         },
+        viewport: {
+          type: 'string',
+          description: `Optional viewport that sizes the root frame and resolves %, vw and vh: a preset (${Object.keys(VIEWPORT_PRESETS).join(', ')}) or WIDTHxHEIGHT such as "393x852". Without it the root frame hugs its content.`,
+        },
+        breakpoints: {
+          type: 'array',
+          items: { type: ['number', 'string'] },
+          description: 'Optional list of breakpoints (widths in px, presets or WIDTHxHEIGHT). Renders one frame per breakpoint side by side with @media queries evaluated for each, named like "Home / 375". Replaces viewport.',
+        },
+        layout: {
+          type: 'string',
+          enum: ['single', 'screens'],
+          description: 'How to lay out the top-level elements: "single" (default, stacked in one root frame) or "screens" (one frame per screen, left to right: each element with a data-screen attribute, named by its value, or else each top-level element).',
+        },
+        spacing: {
+          type: 'number',
+          minimum: 0,
+          description: 'Optional space in px between side-by-side frames (breakpoints or screens). Defaults to 80.',
+        },
+        section: {
+          type: 'boolean',
+          description: 'Optional: wrap the created frames in a Figma Section named after the component (name or <title>). Only on the page or inside another section.',
+        },
+        output: {
+          type: 'string',
+          enum: ['component', 'frame', 'component-set'],
+          description: 'What to create: "component" (default, one ComponentNode per rendering), "frame" (plain frames) or "component-set" (one component set with a variant per rendering, e.g. Viewport=375 or Screen=Login).',
+        },
+        description: {
+          type: 'string',
+          description: 'Optional component description shown in Figma\'s inspector and team library. Defaults to <meta name="description">.',
+        },
+        documentationLinks: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional documentation URLs for the component (Figma keeps the first one).',
+        },
+        detail: {
+          type: 'string',
+          enum: ['root', 'named', 'all'],
+          description: 'Which elements the result maps to their Figma nodes (path, id, data-name, node ID, type and size): "named" (default) for elements with an id or data-name attribute, "all" for every element, "root" for none.',
+        },
       },
       required: ['html'],
     },
   },
+  {
+    name: 'create_component_set_from_html',
+    description: createComponentSetTool.description,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Optional name for the component set. Defaults to "AI Component Set".',
+        },
+        variants: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              html: {
+                type: 'string',
+                description: 'The HTML code of this variant. Can include inline styles and <style> blocks.',
+              },
+              properties: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Variant property values, e.g. { "State": "Hover", "Size": "Large" }.',
+              },
+            },
+            required: ['html', 'properties'],
+          },
+          description: 'One entry per variant. Every combination of property values must be unique.',
+        },
+        parentId: {
+          type: 'string',
+          description: 'Optional Figma node ID to place the component set inside.',
+        },
+        viewport: {
+          type: 'string',
+          description: `Optional viewport for every variant: a preset (${Object.keys(VIEWPORT_PRESETS).join(', ')}) or WIDTHxHEIGHT such as "393x852". Without it each variant hugs its content.`,
+        },
+        description: {
+          type: 'string',
+          description: 'Optional component set description shown in Figma\'s inspector and team library.',
+        },
+        documentationLinks: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional documentation URLs for the component set (Figma keeps the first one).',
+        },
+        detail: {
+          type: 'string',
+          enum: ['root', 'named', 'all'],
+          description: 'Which elements each variant in the result maps to their Figma nodes (path, id, data-name, node ID, type and size): "named" (default) for elements with an id or data-name attribute, "all" for every element, "root" for none.',
+        },
+      },
+      required: ['variants'],
+    },
+  },
+  {
+    name: 'update_component_from_html',
+    description: updateComponentTool.description,
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        nodeId: {
+          type: 'string',
+          description: 'ID of the frame or component to update, as returned by create_component_from_html.',
+        },
+        html: {
+          type: 'string',
+          description: 'The new HTML code for the node. Can include inline styles and <style> blocks.',
+        },
+        viewport: {
+          type: 'string',
+          description: `Optional viewport, as used when the node was created: a preset (${Object.keys(VIEWPORT_PRESETS).join(', ')}) or WIDTHxHEIGHT such as "393x852". Without it the node hugs its content.`,
+        },
+        detail: {
+          type: 'string',
+          enum: ['root', 'named', 'all'],
+          description: 'Which elements the result maps to their Figma nodes: "named" (default) for elements with an id or data-name attribute, "all" for every element, "root" for none.',
+        },
+      },
+      required: ['nodeId', 'html'],
+    },
+  },
   {
     name: 'get_current_selection',
     description: 'Get information about the currently selected nodes in Figma. Returns an array of selected nodes with their properties including id, name, type, position, and dimensions.',
@@ -125,11 +272,13 @@ async function main() {
 
       switch (name) {
         case 'create_component_from_html':
-          result = await createComponent({
-            html: (args as { html: string; name?: string; parentId?: string }).html,
-            name: (args as { html: string; name?: string; parentId?: string }).name,
-            parentId: (args as { html: string; name?: string; parentId?: string }).parentId,
-          });
+          result = await createComponent(createComponentSchema.parse(args));
+          break;
+        case 'create_component_set_from_html':
+          result = await createComponentSet(createComponentSetSchema.parse(args));
+          break;
+        case 'update_component_from_html':
+          result = await updateComponent(updateComponentSchema.parse(args));
           break;
         case 'get_current_selection':
           result = await getSelection();
@@ -0,0 +1,90 @@
+/**
+ * Inline SVG (MCP Server side)
+ * Copies <svg> subtrees verbatim from the source (the HTML parser lowercases tag names
+ * such as linearGradient) so the plugin can build native vectors with figma.createNodeFromSvg.
+ * currentColor is resolved against the inherited color, and CSS fill, stroke and size
+ * on the <svg> element become attributes. SVG files used as <img> sources are sized the same way
+ */
+
+import { parse, HTMLElement } from 'node-html-parser';
+import type { CssDeclaration } from './css-cascade';
+import type { ParsedStyle, RGBA } from '../shared/types';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// CSS properties on the <svg> element that map to presentation attributes
+// (CSS wins over attributes, and children inherit them unless they set their own)
+const PRESENTATION_PROPERTIES = [
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity',
+  'stroke-linecap', 'stroke-linejoin', 'stroke-dasharray',
+];
+
+function toCssColor(color: RGBA): string {
+  const channel = (value: number) => Math.round(value * 255);
+  const rgb = `${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}`;
+  return color.a < 1 ? `rgba(${rgb}, ${Number(color.a.toFixed(3))})` : `rgb(${rgb})`;
+}
+
+function parseViewBox(value: string | undefined): { width: number; height: number } | null {
+  const parts = (value ?? '').trim().split(/[\s,]+/).map(Number);
+  if (parts.length !== 4 || parts.some(isNaN) || parts[2] <= 0 || parts[3] <= 0) return null;
+  return { width: parts[2], height: parts[3] };
+}
+
+// Width and height of the vectors: CSS size, else the attributes; a missing side follows
+// the viewBox aspect ratio like in the browser
+function resolveSize(svg: HTMLElement, styles: ParsedStyle): { width?: number; height?: number } {
+  const attribute = (name: string) => {
+    const value = parseFloat(svg.getAttribute(name) ?? '');
+    return isNaN(value) || /%$/.test(svg.getAttribute(name) ?? '') ? undefined : value;
+  };
+  let width = typeof styles.width === 'number' ? styles.width : attribute('width');
+  let height = typeof styles.height === 'number' ? styles.height : attribute('height');
+  const viewBox = parseViewBox(svg.getAttribute('viewBox'));
+  if (viewBox) {
+    if (width !== undefined && height === undefined) height = width * viewBox.height / viewBox.width;
+    if (height !== undefined && width === undefined) width = height * viewBox.width / viewBox.height;
+  }
+  return { width, height };
+}
+
+// Namespace and size the vectors need in Figma
+function finishSvg(svg: HTMLElement, styles: ParsedStyle): void {
+  if (!svg.getAttribute('xmlns')) svg.setAttribute('xmlns', SVG_NAMESPACE);
+  const { width, height } = resolveSize(svg, styles);
+  if (width !== undefined) svg.setAttribute('width', String(width));
+  if (height !== undefined) svg.setAttribute('height', String(height));
+}
+
+// SVG markup of an inline <svg> element, ready for figma.createNodeFromSvg
+// source: the HTML the element was parsed from; declarations: its cascaded CSS
+export function serializeSvg(
+  element: HTMLElement,
+  source: string,
+  declarations: CssDeclaration[],
+  styles: ParsedStyle,
+  currentColor: RGBA
+): string {
+  const [start, end] = element.range;
+  const original = source.slice(start, end);
+  const markup = /^<svg[\s>/]/i.test(original) ? original : element.toString();
+  const svg = parse(markup, { lowerCaseTagName: false, comment: false }).querySelector('svg');
+  if (!svg) return markup;
+
+  // Declarations are in cascade order, so the last one for a property wins
+  for (const { property, value } of declarations) {
+    if (PRESENTATION_PROPERTIES.includes(property)) svg.setAttribute(property, value.trim());
+  }
+  finishSvg(svg, styles);
+
+  return svg.toString().replace(/currentcolor/gi, toCssColor(currentColor));
+}
+
+// SVG markup of an <img> source sized by the <img> element (null when it holds no <svg>).
+// An image is a document of its own, so currentColor is the initial black there
+export function serializeSvgImage(markup: string, styles: ParsedStyle): string | null {
+  const svg = parse(markup, { lowerCaseTagName: false, comment: false }).querySelector('svg');
+  if (!svg) return null;
+  finishSvg(svg, styles);
+  return svg.toString().replace(/currentcolor/gi, toCssColor({ r: 0, g: 0, b: 0, a: 1 }));
+}
@@ -0,0 +1,259 @@
+/**
+ * Inline text (MCP Server side)
+ * Applies CSS white-space rules and <br> line breaks to text content, and turns text
+ * mixed with inline elements ("Pay <b>$20</b> today") into one text element with
+ * styled runs, so the plugin can build a single TextNode
+ */
+
+import { HTMLElement, TextNode } from 'node-html-parser';
+import { isRenderedElement } from './css-cascade';
+import type { ParsedElement, ParsedStyle, TextRun, TextRunStyle } from '../shared/types';
+
+// Elements that are inline text content unless styled otherwise
+const INLINE_TEXT_TAGS = [
+  'span', 'a', 'b', 'strong', 'em', 'i', 'u', 's', 'del', 'ins', 'strike', 'small', 'code', 'kbd', 'samp',
+  'mark', 'abbr', 'cite', 'q', 'sub', 'sup', 'var', 'dfn', 'time', 'label', 'font', 'bdi', 'bdo', 'data',
+];
+
+// Containers whose content is never merged into one text node
+const NON_TEXT_CONTAINERS = ['img', 'input', 'textarea', 'select', 'svg', 'video', 'canvas', 'iframe'];
+
+const RUN_STYLE_FIELDS: (keyof TextRunStyle)[] = [
+  'color', 'fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'textDecoration', 'letterSpacing', 'textTransform',
+];
+
+// Styles that need a box of their own (a frame), which a text range can't show
+function hasBoxStyles(styles: ParsedStyle): boolean {
+  return !!styles.padding || !!styles.paddingTop || !!styles.paddingRight ||
+    !!styles.paddingBottom || !!styles.paddingLeft ||
+    !!styles.margin || !!styles.marginLeft || !!styles.marginRight ||
+    styles.backgroundColor !== undefined || styles.backgroundGradient !== undefined ||
+    styles.backgroundRadialGradient !== undefined || styles.backgroundImage !== undefined ||
+    !!styles.borderWidth || !!styles.borderTopWidth || !!styles.borderRightWidth ||
+    !!styles.borderBottomWidth || !!styles.borderLeftWidth ||
+    (styles.boxShadow !== undefined && styles.boxShadow.length > 0) ||
+    styles.width !== undefined || styles.height !== undefined ||
+    styles.opacity !== undefined || styles.position === 'absolute' || styles.position === 'fixed' ||
+    styles.flexGrow !== undefined || styles.rotation !== undefined;
+}
+
+// Check whether an element (and everything inside it) can become ranges of its parent's text
+function isInlineText(element: HTMLElement, parsed: ParsedElement): boolean {
+  if (!INLINE_TEXT_TAGS.includes(parsed.tagName)) return false;
+  // State variants (e.g. a:hover) need a layer of their own to swap
+  if (parsed.states) return false;
+  if (parsed.styles.display !== undefined && parsed.styles.display !== 'inline') return false;
+  if (hasBoxStyles(parsed.styles)) return false;
+
+  const children = element.childNodes.filter(isRenderedElement);
+  return children.every((child, index) => isInlineText(child, parsed.children[index]));
+}
+
+function pickRunStyle(styles: ParsedStyle): TextRunStyle {
+  const runStyle: TextRunStyle = {};
+  for (const field of RUN_STYLE_FIELDS) {
+    if (styles[field] !== undefined) (runStyle as Record<string, unknown>)[field] = styles[field];
+  }
+  return runStyle;
+}
+
+// Link fields a run inherits from its enclosing elements
+type RunLink = Pick<TextRun, 'href' | 'navigate' | 'overlay'>;
+
+const RUN_LINK_FIELDS: (keyof RunLink)[] = ['href', 'navigate', 'overlay'];
+
+// The link fields that are set (so runs don't carry undefined keys)
+function pickRunLink(source: RunLink): RunLink {
+  const link: RunLink = {};
+  for (const field of RUN_LINK_FIELDS) {
+    if (source[field]) link[field] = source[field];
+  }
+  return link;
+}
+
+function hasRunLink(run: TextRun): boolean {
+  return RUN_LINK_FIELDS.some(field => run[field] !== undefined);
+}
+
+// A piece of text before white-space processing; <br> pieces are forced line breaks
+interface TextPiece extends TextRun {
+  lineBreak?: boolean;
+}
+
+type WhiteSpace = ParsedStyle['whiteSpace'];
+
+const TAB_SIZE = 8;
+
+function isLineBreak(node: unknown): node is HTMLElement {
+  return node instanceof HTMLElement && node.tagName?.toLowerCase() === 'br';
+}
+
+function preservesSpaces(whiteSpace: WhiteSpace): boolean {
+  return whiteSpace === 'pre' || whiteSpace === 'pre-wrap' || whiteSpace === 'break-spaces';
+}
+
+// Collect pieces in document order; text nodes take the style of the element containing them
+function collectPieces(element: HTMLElement, parsed: ParsedElement, inheritedLink: RunLink, pieces: TextPiece[]): void {
+  const link = pickRunLink({
+    href: (parsed.tagName === 'a' && element.getAttribute('href')) || inheritedLink.href,
+    navigate: element.getAttribute('data-navigate') || inheritedLink.navigate,
+    overlay: element.getAttribute('data-overlay') || inheritedLink.overlay,
+  });
+  const styles = pickRunStyle(parsed.styles);
+  let childIndex = 0;
+
+  for (const node of element.childNodes) {
+    if (node instanceof TextNode) {
+      if (node.text) pieces.push({ text: node.text, styles, ...link });
+    } else if (isLineBreak(node)) {
+      pieces.push({ text: '\n', styles, ...link, lineBreak: true });
+    } else if (isRenderedElement(node)) {
+      collectPieces(node, parsed.children[childIndex++], link, pieces);
+    }
+  }
+}
+
+// Expand tabs to the next tab stop, tracking the column across pieces
+function expandTabs(text: string, column: { value: number }): string {
+  let result = '';
+  for (const char of text) {
+    if (char === '\t') {
+      const spaces = TAB_SIZE - (column.value % TAB_SIZE);
+      result += ' '.repeat(spaces);
+      column.value += spaces;
+    } else {
+      result += char;
+      column.value = char === '\n' ? 0 : column.value + 1;
+    }
+  }
+  return result;
+}
+
+// Apply the CSS white-space rules to pieces of one block of text:
+// normal/nowrap collapse all whitespace, pre-line keeps newlines, pre/pre-wrap keep everything.
+// Spaces at line starts and ends are removed, and a final <br> or newline adds no empty line
+function applyWhiteSpace(pieces: TextPiece[], whiteSpace: WhiteSpace): TextRun[] {
+  const output: TextRun[] = [];
+  const removeTrailingSpace = () => {
+    const last = output[output.length - 1];
+    if (last) last.text = last.text.replace(/ +$/, '');
+  };
+
+  if (preservesSpaces(whiteSpace)) {
+    const column = { value: 0 };
+    for (const piece of pieces) {
+      const text = expandTabs(piece.text.replace(/\r\n?/g, '\n'), column);
+      output.push({ text, styles: piece.styles, ...pickRunLink(piece) });
+    }
+  } else {
+    let atLineStart = true;
+    for (const piece of pieces) {
+      let text = piece.text.replace(/\r\n?/g, '\n');
+      if (piece.lineBreak) {
+        removeTrailingSpace();
+      } else if (whiteSpace === 'pre-line') {
+        text = text.replace(/[ \t\f]+/g, ' ').replace(/ ?\n ?/g, '\n');
+        if (text.startsWith('\n')) removeTrailingSpace();
+        if (atLineStart && text.startsWith(' ')) text = text.slice(1);
+      } else {
+        text = text.replace(/[ \t\n\f]+/g, ' ');
+        if (atLineStart && text.startsWith(' ')) text = text.slice(1);
+      }
+      if (!text) continue;
+      atLineStart = text.endsWith(' ') || text.endsWith('\n');
+      output.push({ text, styles: piece.styles, ...pickRunLink(piece) });
+    }
+    removeTrailingSpace();
+  }
+
+  // The last line break ends the last line rather than starting an empty one
+  const last = output[output.length - 1];
+  if (last && last.text.endsWith('\n')) last.text = last.text.slice(0, -1);
+  return output.filter(run => run.text);
+}
+
+// Get an element's own text (direct text nodes and <br> line breaks) with white-space applied
+// Returns undefined when there is no visible text
+export function extractText(element: HTMLElement, whiteSpace: WhiteSpace): string | undefined {
+  const pieces: TextPiece[] = [];
+  for (const node of element.childNodes) {
+    if (node instanceof TextNode) {
+      if (node.text) pieces.push({ text: node.text, styles: {} });
+    } else if (isLineBreak(node)) {
+      pieces.push({ text: '\n', styles: {}, lineBreak: true });
+    }
+  }
+  stripLeadingNewline(element, pieces);
+
+  const text = applyWhiteSpace(pieces, whiteSpace).map(run => run.text).join('');
+  return text.trim() ? text : undefined;
+}
+
+// The HTML parser drops a newline right after <pre>, <listing> and <textarea> start tags
+function stripLeadingNewline(element: HTMLElement, pieces: TextPiece[]): void {
+  const tagName = element.tagName?.toLowerCase();
+  if (tagName !== 'pre' && tagName !== 'listing' && tagName !== 'textarea') return;
+  const first = pieces[0];
+  if (first && !first.lineBreak) first.text = first.text.replace(/^\r?\n/, '');
+}
+
+// Merge neighbouring runs that look the same
+function mergeRuns(runs: TextRun[]): TextRun[] {
+  const merged: TextRun[] = [];
+  for (const run of runs) {
+    const previous = merged[merged.length - 1];
+    const sameLink = previous && RUN_LINK_FIELDS.every(field => previous[field] === run[field]);
+    if (previous && sameLink && JSON.stringify(previous.styles) === JSON.stringify(run.styles)) {
+      previous.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+  }
+  return merged;
+}
+
+// Build runs for an element whose content is text mixed with inline elements
+// Returns null when the content has block-level parts or nothing to merge
+function buildTextRuns(element: HTMLElement, parsed: ParsedElement): TextRun[] | null {
+  if (NON_TEXT_CONTAINERS.includes(parsed.tagName)) return null;
+  const display = parsed.styles.display;
+  // Flex and grid containers turn each text run and child into separate items
+  if (display === 'flex' || display === 'inline-flex' || display === 'grid' || display === 'inline-grid') return null;
+
+  const children = element.childNodes.filter(isRenderedElement);
+  if (children.length === 0) return null;
+  if (!children.every((child, index) => isInlineText(child, parsed.children[index]))) return null;
+
+  // A lone wrapper (<div><span>x</span></div>) is already one text layer
+  const hasDirectText = element.childNodes.some(node => (node instanceof TextNode && node.text.trim()) || isLineBreak(node));
+  if (!hasDirectText && children.length < 2) return null;
+
+  const pieces: TextPiece[] = [];
+  collectPieces(element, parsed, {}, pieces);
+  stripLeadingNewline(element, pieces);
+  const result = mergeRuns(applyWhiteSpace(pieces, parsed.styles.whiteSpace));
+  return result.length > 0 ? result : null;
+}
+
+// Apply inline formatting top-down: the outermost element with mixed inline content
+// becomes one text element and its inline children are folded into runs
+export function formatInlineText(element: HTMLElement, parsed: ParsedElement): void {
+  // State variants are renderings of the same HTML element
+  for (const variant of parsed.states ?? []) {
+    formatInlineText(element, variant.element);
+  }
+
+  const runs = buildTextRuns(element, parsed);
+  if (runs) {
+    parsed.textContent = runs.map(run => run.text).join('');
+    parsed.children = [];
+    // A single unstyled run is plain text
+    if (runs.length > 1 || hasRunLink(runs[0])) parsed.textRuns = runs;
+    return;
+  }
+
+  // Inline SVG content isn't parsed into children
+  if (parsed.svg !== undefined) return;
+  const children = element.childNodes.filter(isRenderedElement);
+  children.forEach((child, index) => formatInlineText(child, parsed.children[index]));
+}
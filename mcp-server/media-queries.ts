@@ -0,0 +1,275 @@
+/**
+ * Media query evaluation (MCP Server side)
+ * Decides which @media blocks apply to a rendering viewport, including
+ * min-/max- features, level 4 range syntax and not/and/or conditions
+ */
+
+import { parseCssLength, parseCssNumber, toPixels } from './css-calc';
+import type { Viewport } from '../shared/types';
+
+// What a static Figma rendering looks like to media queries
+export interface MediaEnvironment extends Viewport {
+  colorScheme: 'light' | 'dark';
+}
+
+type Comparison = '<' | '<=' | '=' | '>=' | '>';
+
+// Discrete features and the values a desktop/mobile screen rendering reports
+const DISCRETE_FEATURES: Record<string, (environment: MediaEnvironment) => string[]> = {
+  'orientation': env => [env.height >= env.width ? 'portrait' : 'landscape'],
+  'prefers-color-scheme': env => [env.colorScheme],
+  'prefers-reduced-motion': () => ['no-preference'],
+  'prefers-contrast': () => ['no-preference'],
+  'forced-colors': () => ['none'],
+  'hover': () => ['hover'],
+  'any-hover': () => ['hover'],
+  'pointer': () => ['fine'],
+  'any-pointer': () => ['fine'],
+  'scripting': () => ['enabled'],
+  'display-mode': () => ['browser'],
+  'color-gamut': () => ['srgb'],
+  'dynamic-range': () => ['standard'],
+  'update': () => ['fast'],
+};
+
+// Range features resolved to a number (lengths in px, ratios as width/height)
+function getRangeFeature(name: string, environment: MediaEnvironment): number | null {
+  switch (name) {
+    case 'width': return environment.width;
+    case 'height': return environment.height;
+    case 'aspect-ratio': return environment.width / environment.height;
+    case 'resolution': return 1;
+    case 'color': return 8;
+    case 'monochrome': return 0;
+    case 'color-index': return 0;
+    default: return null;
+  }
+}
+
+// Parse a range feature value into the unit getRangeFeature uses
+// (em/rem in media queries always refer to the initial 16px font size)
+function parseFeatureValue(name: string, value: string): number | null {
+  const trimmed = value.trim();
+  if (name === 'aspect-ratio') {
+    const [width, height = '1'] = trimmed.split('/');
+    const ratio = parseFloat(width) / parseFloat(height);
+    return isFinite(ratio) ? ratio : null;
+  }
+  if (name === 'resolution') {
+    const match = trimmed.match(/^([\d.]+)(dppx|x|dpi|dpcm)$/);
+    if (!match) return null;
+    const amount = parseFloat(match[1]);
+    if (match[2] === 'dpi') return amount / 96;
+    if (match[2] === 'dpcm') return amount * 2.54 / 96;
+    return amount;
+  }
+  if (name === 'width' || name === 'height') {
+    const length = parseCssLength(trimmed);
+    return length ? toPixels(length) : null;
+  }
+  return parseCssNumber(trimmed);
+}
+
+function compare(left: number, comparison: Comparison, right: number): boolean {
+  const epsilon = 1e-6;
+  switch (comparison) {
+    case '<': return left < right - epsilon;
+    case '<=': return left <= right + epsilon;
+    case '=': return Math.abs(left - right) <= epsilon;
+    case '>=': return left >= right - epsilon;
+    case '>': return left > right + epsilon;
+  }
+}
+
+function invert(comparison: Comparison): Comparison {
+  switch (comparison) {
+    case '<': return '>';
+    case '<=': return '>=';
+    case '>=': return '<=';
+    case '>': return '<';
+    default: return comparison;
+  }
+}
+
+const RANGE_PATTERN = /^(.+?)\s*(<=|>=|<|>|=)\s*(.+?)(?:\s*(<=|>=|<|>|=)\s*(.+))?$/;
+const FEATURE_NAME_PATTERN = /^[a-z-]+$/;
+
+// Evaluate the inside of a (feature) test
+function evaluateFeature(feature: string, environment: MediaEnvironment): boolean {
+  const colon = feature.indexOf(':');
+  if (colon !== -1) {
+    // Plain (name: value) with optional min-/max- prefix
+    let name = feature.slice(0, colon).trim();
+    const value = feature.slice(colon + 1).trim();
+    let comparison: Comparison = '=';
+    if (name.startsWith('min-')) {
+      name = name.slice(4);
+      comparison = '>=';
+    } else if (name.startsWith('max-')) {
+      name = name.slice(4);
+      comparison = '<=';
+    }
+
+    const discrete = DISCRETE_FEATURES[name];
+    if (discrete) return comparison === '=' && discrete(environment).includes(value);
+
+    const actual = getRangeFeature(name, environment);
+    const expected = parseFeatureValue(name, value);
+    if (actual === null || expected === null) return false;
+    return compare(actual, comparison, expected);
+  }
+
+  const range = feature.match(RANGE_PATTERN);
+  if (range) {
+    // Level 4 range syntax: (width >= 600px), (400px < width <= 900px)
+    const [, first, firstComparison, second, secondComparison, third] = range;
+    if (FEATURE_NAME_PATTERN.test(first) && !secondComparison) {
+      const actual = getRangeFeature(first, environment);
+      const expected = parseFeatureValue(first, second);
+      return actual !== null && expected !== null && compare(actual, firstComparison as Comparison, expected);
+    }
+    if (FEATURE_NAME_PATTERN.test(second)) {
+      const actual = getRangeFeature(second, environment);
+      const lower = parseFeatureValue(second, first);
+      if (actual === null || lower === null) return false;
+      if (!compare(actual, invert(firstComparison as Comparison), lower)) return false;
+      if (!secondComparison) return true;
+      const upper = parseFeatureValue(second, third);
+      return upper !== null && compare(actual, secondComparison as Comparison, upper);
+    }
+    return false;
+  }
+
+  // Boolean context: (color), (hover), (orientation)
+  const discrete = DISCRETE_FEATURES[feature];
+  if (discrete) return discrete(environment).some(value => value !== 'none' && value !== 'no-preference');
+  const value = getRangeFeature(feature, environment);
+  return value !== null && value !== 0;
+}
+
+// Recursive descent over one media query's condition text
+class ConditionParser {
+  private position = 0;
+
+  constructor(private readonly input: string, private readonly environment: MediaEnvironment) {}
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.input[this.position] ?? '')) this.position++;
+  }
+
+  private readKeyword(): string | null {
+    this.skipWhitespace();
+    const match = this.input.slice(this.position).match(/^[a-z-]+/);
+    return match ? match[0] : null;
+  }
+
+  private consumeKeyword(keyword: string): boolean {
+    if (this.readKeyword() !== keyword) return false;
+    this.position += keyword.length;
+    return true;
+  }
+
+  atEnd(): boolean {
+    this.skipWhitespace();
+    return this.position >= this.input.length;
+  }
+
+  // condition := not <in-parens> | <in-parens> [and <in-parens>]* | <in-parens> [or <in-parens>]*
+  parseCondition(): boolean | null {
+    if (this.consumeKeyword('not')) {
+      const result = this.parseInParens();
+      return result === null ? null : !result;
+    }
+
+    let result = this.parseInParens();
+    if (result === null) return null;
+    for (;;) {
+      const keyword = this.readKeyword();
+      if (keyword !== 'and' && keyword !== 'or') return result;
+      this.position += keyword.length;
+      const next = this.parseInParens();
+      if (next === null) return null;
+      result = keyword === 'and' ? result && next : result || next;
+    }
+  }
+
+  // in-parens := ( <condition> ) | ( <feature> )
+  private parseInParens(): boolean | null {
+    this.skipWhitespace();
+    if (this.input[this.position] !== '(') return null;
+
+    let depth = 0;
+    let end = this.position;
+    for (; end < this.input.length; end++) {
+      if (this.input[end] === '(') depth++;
+      else if (this.input[end] === ')' && --depth === 0) break;
+    }
+    if (depth !== 0) return null;
+
+    const inner = this.input.slice(this.position + 1, end).trim();
+    this.position = end + 1;
+
+    if (inner.startsWith('(') || inner.startsWith('not ')) {
+      const nested = new ConditionParser(inner, this.environment);
+      const result = nested.parseCondition();
+      return result !== null && nested.atEnd() ? result : null;
+    }
+    return evaluateFeature(inner, this.environment);
+  }
+
+  // query := [not | only] <media-type> [and <condition>] | <condition>
+  parseQuery(): boolean | null {
+    this.skipWhitespace();
+    if (this.input[this.position] === '(' || this.input.startsWith('not (', this.position)) {
+      return this.parseCondition();
+    }
+
+    let negate = false;
+    if (this.consumeKeyword('not')) negate = true;
+    else this.consumeKeyword('only');
+
+    const mediaType = this.readKeyword();
+    if (!mediaType) return null;
+    this.position += mediaType.length;
+    let result = mediaType === 'all' || mediaType === 'screen';
+
+    if (this.consumeKeyword('and')) {
+      const condition = this.parseCondition();
+      if (condition === null) return null;
+      result = result && condition;
+    }
+    return negate ? !result : result;
+  }
+}
+
+// Split a media query list at top-level commas
+function splitQueries(prelude: string): string[] {
+  const queries: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of prelude) {
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      queries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  queries.push(current);
+  return queries;
+}
+
+// Check whether an @media prelude matches the environment
+// Malformed queries never match (like "not all" in browsers)
+export function matchesMediaQuery(prelude: string, environment: MediaEnvironment): boolean {
+  const normalized = prelude.trim().toLowerCase();
+  if (!normalized) return true;
+
+  return splitQueries(normalized).some(query => {
+    const parser = new ConditionParser(query.trim(), environment);
+    const result = parser.parseQuery();
+    return result === true && parser.atEnd();
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Multi-screen documents (MCP Server side)
+ * Splits a parsed document into screens, each rendered as its own top-level frame:
+ * the elements marked with data-screen, or else every top-level element.
+ * Links between the screens become prototype links for the plugin to wire
+ */
+
+import type { ParsedElement, ParsedScreen, PrototypeLink } from '../shared/types';
+
+const SCREEN_ATTRIBUTE = 'data-screen';
+
+// data-navigate values that don't name a screen
+const BACK_TARGETS = ['back', 'history.back()', 'javascript:history.back()'];
+const CLOSE_TARGETS = ['close'];
+
+// Outermost elements marked as screens, in document order (screens don't nest)
+function collectMarkedScreens(elements: ParsedElement[], screens: ParsedElement[] = []): ParsedElement[] {
+  for (const element of elements) {
+    if (element.attributes[SCREEN_ATTRIBUTE] !== undefined) {
+      screens.push(element);
+    } else {
+      collectMarkedScreens(element.children, screens);
+    }
+  }
+  return screens;
+}
+
+// Frame name: the data-screen value, else data-name or id, else its position
+function screenName(element: ParsedElement, index: number): string {
+  const { attributes } = element;
+  return attributes[SCREEN_ATTRIBUTE]?.trim() || attributes['data-name']?.trim() || attributes.id || `Screen ${index + 1}`;
+}
+
+function collectIds(element: ParsedElement, ids: Set<string>): Set<string> {
+  if (element.attributes.id) ids.add(element.attributes.id);
+  for (const child of element.children) collectIds(child, ids);
+  return ids;
+}
+
+// Screen a link target refers to: by screen name (case-insensitive), else by an id inside it
+function findScreen(target: string, screens: ParsedScreen[], screenIds: Set<string>[]): number | undefined {
+  const name = target.toLowerCase();
+  const byName = screens.findIndex(screen => screen.name.toLowerCase() === name);
+  if (byName >= 0) return byName;
+  const byId = screenIds.findIndex(ids => ids.has(target));
+  return byId >= 0 ? byId : undefined;
+}
+
+// Prototype link of one element: data-overlay and data-navigate name a screen (or back/close),
+// href="#id" navigates to the screen with that name or holding that id
+function readLink(attributes: Record<string, string | undefined>, screens: ParsedScreen[], screenIds: Set<string>[]): PrototypeLink | undefined {
+  const overlay = attributes['data-overlay']?.trim();
+  if (overlay) {
+    const screen = findScreen(overlay, screens, screenIds);
+    return screen === undefined ? undefined : { action: 'overlay', screen };
+  }
+
+  const href = attributes.href?.trim();
+  const target = attributes['data-navigate']?.trim() ||
+    (href && BACK_TARGETS.includes(href.toLowerCase()) ? href : undefined) ||
+    (href?.startsWith('#') ? href.slice(1) : undefined);
+  if (!target) return undefined;
+  if (BACK_TARGETS.includes(target.toLowerCase())) return { action: 'back' };
+  if (CLOSE_TARGETS.includes(target.toLowerCase())) return { action: 'close' };
+  const screen = findScreen(target, screens, screenIds);
+  return screen === undefined ? undefined : { action: 'navigate', screen };
+}
+
+function assignLinks(element: ParsedElement, current: number, screens: ParsedScreen[], screenIds: Set<string>[]): void {
+  // Anchors within the same screen would only scroll, which a prototype link can't express here
+  const isUsable = (link: PrototypeLink | undefined): link is PrototypeLink =>
+    !!link && !(link.action === 'navigate' && link.screen === current);
+
+  const link = readLink(element.attributes, screens, screenIds);
+  if (isUsable(link)) {
+    element.link = link;
+  }
+  // Links folded into text runs ("Or <a href="#checkout">pay now</a>")
+  for (const run of element.textRuns ?? []) {
+    const runLink = readLink({ href: run.href, 'data-navigate': run.navigate, 'data-overlay': run.overlay }, screens, screenIds);
+    if (isUsable(runLink)) run.link = runLink;
+  }
+  for (const child of element.children) {
+    assignLinks(child, current, screens, screenIds);
+  }
+}
+
+export function splitScreens(elements: ParsedElement[]): ParsedScreen[] {
+  const marked = collectMarkedScreens(elements);
+  const roots = marked.length > 0 ? marked : elements;
+  const screens = roots.map((element, index) => ({ name: screenName(element, index), elements: [element] }));
+
+  const screenIds = roots.map(element => collectIds(element, new Set()));
+  roots.forEach((element, index) => assignLinks(element, index, screens, screenIds));
+  return screens;
+}
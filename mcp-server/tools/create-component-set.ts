@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { getWebSocketServer } from '../websocket';
+import { parseHTML } from '../html-parser';
+import type { ParseOptions } from '../html-parser';
+import { mergeDesignTokens } from '../design-tokens';
+import { resolveViewport, VIEWPORT_PRESETS } from '../viewports';
+import { sendCreateComponent } from './create-component';
+import type { CreateComponentMessage, ComponentCreationResult, DesignTokens, ParsedVariant } from '../../shared/types';
+
+export const createComponentSetSchema = z.object({
+  name: z.string().optional().describe('Optional name for the component set. Defaults to "AI Component Set".'),
+  variants: z.array(z.object({
+    html: z.string().describe('The HTML code of this variant. Can include inline styles or a <style> tag.'),
+    properties: z.record(z.string()).describe('Variant property values, e.g. { "State": "Hover", "Size": "Large" }.'),
+  })).min(1).describe('One entry per variant. Every combination of property values must be unique.'),
+  parentId: z.string().optional().describe('Optional Figma node ID to place the component set inside.'),
+  viewport: z.string().optional().describe(`Optional viewport for every variant: a preset (${Object.keys(VIEWPORT_PRESETS).join(', ')}) or WIDTHxHEIGHT such as "393x852". Without it each variant hugs its content.`),
+  description: z.string().optional().describe('Optional component set description shown in Figma\'s inspector and team library.'),
+  documentationLinks: z.array(z.string().url()).optional().describe('Optional documentation URLs for the component set (Figma keeps the first one).'),
+  detail: z.enum(['root', 'named', 'all']).optional().describe('Which elements each variant in the result maps to their Figma nodes (path, id, data-name, node ID, type and size): "named" (default) for elements with an id or data-name attribute, "all" for every element, "root" for none.'),
+});
+
+export type CreateComponentSetInput = z.infer<typeof createComponentSetSchema>;
+
+// Figma stores variant properties in the component name as "Name=Value, Name=Value"
+const RESERVED_VARIANT_CHARACTERS = /[=,]/;
+
+// Check the variant properties Figma would reject or silently merge
+function validateVariantProperties(variants: CreateComponentSetInput['variants']): void {
+  const seen = new Set<string>();
+  for (const { properties } of variants) {
+    const entries = Object.entries(properties);
+    if (entries.length === 0) {
+      throw new Error('Every variant needs at least one property, e.g. { "State": "Default" }');
+    }
+    for (const [property, value] of entries) {
+      if (!property.trim() || !value.trim()) {
+        throw new Error('Variant property names and values must not be empty');
+      }
+      if (RESERVED_VARIANT_CHARACTERS.test(property) || RESERVED_VARIANT_CHARACTERS.test(value)) {
+        throw new Error(`Variant property "${property}=${value}" must not contain "=" or ","`);
+      }
+    }
+
+    const combination = entries.map(([property, value]) => `${property}=${value}`).sort().join(', ');
+    if (seen.has(combination)) {
+      throw new Error(`Duplicate variant: ${combination}`);
+    }
+    seen.add(combination);
+  }
+}
+
+export async function createComponentSet(input: CreateComponentSetInput): Promise<ComponentCreationResult> {
+  const ws = getWebSocketServer();
+
+  if (!ws.isConnected()) {
+    throw new Error(
+      'Figma plugin is not connected. Please:\n' +
+      '1. Open Figma\n' +
+      '2. Open a design file\n' +
+      '3. Run the AI Designer plugin (Plugins > AI Designer)'
+    );
+  }
+
+  validateVariantProperties(input.variants);
+  const viewport = input.viewport ? resolveViewport(input.viewport) : undefined;
+
+  // Parse every variant on the server side; their design tokens share one collection
+  // and images and stylesheets used by several variants are loaded once
+  const parseOptions: ParseOptions = { images: new Map(), stylesheets: new Map() };
+  const variants: ParsedVariant[] = [];
+  const tokenSets: (DesignTokens | undefined)[] = [];
+  for (const variant of input.variants) {
+    const document = await parseHTML(variant.html, undefined, viewport, parseOptions);
+    if (document.elements.length === 0) {
+      throw new Error(`No valid HTML elements found in variant ${JSON.stringify(variant.properties)}`);
+    }
+    variants.push({ properties: variant.properties, elements: document.elements, root: document.root, viewport: document.viewport, source: document.source });
+    tokenSets.push(document.designTokens);
+  }
+
+  const message: CreateComponentMessage = {
+    id: ws.generateId(),
+    type: 'create_component',
+    payload: {
+      elements: variants[0].elements,
+      name: input.name ?? 'AI Component Set',
+      parentId: input.parentId,
+      designTokens: mergeDesignTokens(tokenSets),
+      variants,
+      output: 'component-set',
+      description: input.description,
+      documentationLinks: input.documentationLinks,
+      detail: input.detail,
+    },
+  };
+
+  return sendCreateComponent(message);
+}
+
+export const createComponentSetTool = {
+  name: 'create_component_set_from_html',
+  description: `Create a Figma component set from several HTML variants. Each variant is converted like create_component_from_html, built as a ComponentNode named from its properties (e.g. "State=Hover, Size=Large") and combined into one ComponentSetNode.
+
+Variants are laid out in a grid: one column per value of the first property, one row per combination of the other properties.
+
+Example:
+{
+  "name": "Button",
+  "variants": [
+    { "properties": { "State": "Default", "Size": "Small" }, "html": "<button style=\\"padding: 8px 16px; background: #3b82f6; color: white; border-radius: 6px;\\">Button</button>" },
+    { "properties": { "State": "Hover", "Size": "Small" }, "html": "<button style=\\"padding: 8px 16px; background: #2563eb; color: white; border-radius: 6px;\\">Button</button>" }
+  ]
+}`,
+  inputSchema: createComponentSetSchema,
+  handler: createComponentSet,
+};
@@ -1,12 +1,24 @@
 import { z } from 'zod';
 import { getWebSocketServer } from '../websocket';
 import { parseHTML } from '../html-parser';
-import type { CreateComponentMessage, ResultMessage, ErrorMessage, ComponentCreationResult } from '../../shared/types';
+import type { ParseOptions } from '../html-parser';
+import { resolveViewport, resolveBreakpoint, VIEWPORT_PRESETS } from '../viewports';
+import { splitScreens } from '../screens';
+import type { CreateComponentMessage, UpdateComponentMessage, ResultMessage, ErrorMessage, ComponentCreationResult, ParsedBreakpoint } from '../../shared/types';
 
 export const createComponentSchema = z.object({
   html: z.string().describe('The HTML code to convert to a Figma component. Can include inline styles or a <style> tag.'),
-  name: z.string().optional().describe('Optional name for the created component. Defaults to "AI Component".'),
+  name: z.string().optional().describe('Optional name for the created component. Defaults to the <title> of the HTML, else "AI Component".'),
   parentId: z.string().optional().describe('Optional Figma node ID to place the component inside.'),
+  viewport: z.string().optional().describe(`Optional viewport that sizes the root frame and resolves %, vw and vh: a preset (${Object.keys(VIEWPORT_PRESETS).join(', ')}) or WIDTHxHEIGHT such as "393x852". Without it the root frame hugs its content.`),
+  breakpoints: z.array(z.union([z.number(), z.string()])).optional().describe('Optional list of breakpoints (widths in px, presets or WIDTHxHEIGHT). Renders one frame per breakpoint side by side with @media queries evaluated for each, named like "Home / 375". Replaces viewport.'),
+  layout: z.enum(['single', 'screens']).optional().describe('How to lay out the top-level elements: "single" (default, stacked in one root frame) or "screens" (one frame per screen, left to right: each element with a data-screen attribute, named by its value, or else each top-level element).'),
+  spacing: z.number().min(0).optional().describe('Optional space in px between side-by-side frames (breakpoints or screens). Defaults to 80.'),
+  section: z.boolean().optional().describe('Optional: wrap the created frames in a Figma Section named after the component (name or <title>). Only on the page or inside another section.'),
+  output: z.enum(['component', 'frame', 'component-set']).optional().describe('What to create: "component" (default, one ComponentNode per rendering), "frame" (plain frames) or "component-set" (one component set with a variant per rendering, e.g. Viewport=375 or Screen=Login).'),
+  description: z.string().optional().describe('Optional component description shown in Figma\'s inspector and team library. Defaults to <meta name="description">.'),
+  documentationLinks: z.array(z.string().url()).optional().describe('Optional documentation URLs for the component (Figma keeps the first one).'),
+  detail: z.enum(['root', 'named', 'all']).optional().describe('Which elements the result maps to their Figma nodes (path, id, data-name, node ID, type and size): "named" (default) for elements with an id or data-name attribute, "all" for every element, "root" for none.'),
 });
 
 export type CreateComponentInput = z.infer<typeof createComponentSchema>;
@@ -23,26 +35,74 @@ export async function createComponent(input: CreateComponentInput): Promise<Comp
     );
   }
 
+  if (input.viewport && input.breakpoints?.length) {
+    throw new Error('Use either viewport or breakpoints, not both');
+  }
+  if (input.layout === 'screens' && input.breakpoints?.length) {
+    throw new Error('Use either breakpoints or layout "screens", not both');
+  }
+  if (input.output === 'frame' && (input.description || input.documentationLinks?.length)) {
+    throw new Error('description and documentationLinks need output "component" or "component-set"');
+  }
+  const viewport = input.viewport ? resolveViewport(input.viewport) : undefined;
+  const breakpointViewports = (input.breakpoints || []).map(resolveBreakpoint);
+
   // Parse HTML on the server side (async to support web image downloads)
-  const elements = await parseHTML(input.html);
+  // Breakpoint parses reuse the images and stylesheets loaded by the first one and lay out
+  // at their own width, whatever <meta name="viewport"> says
+  const parseOptions: ParseOptions = {
+    images: new Map(),
+    stylesheets: new Map(),
+    ignoreMetaViewport: breakpointViewports.length > 0,
+  };
+  const { elements, root, title, description, designTokens, viewport: layoutViewport, source } = await parseHTML(input.html, undefined, breakpointViewports[0] ?? viewport, parseOptions);
 
   if (elements.length === 0) {
     throw new Error('No valid HTML elements found in the provided HTML');
   }
 
+  // Parse once more per remaining breakpoint so @media queries see each viewport
+  let breakpoints: ParsedBreakpoint[] | undefined;
+  if (breakpointViewports.length > 0) {
+    breakpoints = [{ viewport: layoutViewport ?? breakpointViewports[0], elements, root }];
+    for (const breakpointViewport of breakpointViewports.slice(1)) {
+      const document = await parseHTML(input.html, undefined, breakpointViewport, parseOptions);
+      breakpoints.push({ viewport: document.viewport ?? breakpointViewport, elements: document.elements, root: document.root });
+    }
+  }
+
   const message: CreateComponentMessage = {
     id: ws.generateId(),
     type: 'create_component',
     payload: {
       elements,
-      name: input.name,
+      root,
+      // <title> and <meta name="description"> stand in for missing inputs
+      name: input.name ?? title,
       parentId: input.parentId,
+      designTokens,
+      viewport: layoutViewport,
+      breakpoints,
+      screens: input.layout === 'screens' ? splitScreens(elements) : undefined,
+      spacing: input.spacing,
+      section: input.section,
+      output: input.output,
+      description: input.description ?? (input.output === 'frame' ? undefined : description),
+      documentationLinks: input.documentationLinks,
+      source,
+      detail: input.detail,
     },
   };
 
-  // Use longer timeout (120s) for complex HTML that takes time to render in Figma
-  const COMPONENT_CREATION_TIMEOUT = 120000;
+  return sendCreateComponent(message);
+}
 
+// Use longer timeout (120s) for complex HTML that takes time to render in Figma
+const COMPONENT_CREATION_TIMEOUT = 120000;
+
+// Send a create_component (or update_component) message to the plugin and wait for the rendered nodes
+export async function sendCreateComponent(message: CreateComponentMessage | UpdateComponentMessage): Promise<ComponentCreationResult> {
+  const ws = getWebSocketServer();
   try {
     const response = await ws.send<ResultMessage | ErrorMessage>(message, COMPONENT_CREATION_TIMEOUT);
 
@@ -72,17 +132,37 @@ Supported HTML elements:
 - <span>, <p>, <h1>-<h6>, <label> → Text
 - <button> → Frame with Text (styled as button)
 - <input>, <textarea> → Frame with Text (styled as input)
-- <img> → Rectangle with Image Fill (placeholder)
+- <img> → Rectangle with Image Fill (placeholder), or Vector frame for SVG sources
+- <svg> → Vector frame (createNodeFromSvg)
 - <a> → Text with link styling
 
 Supported CSS properties:
-- Layout: display (flex), flex-direction, justify-content, align-items, gap
+- Layout: display (flex, grid), flex-direction, justify-content, align-items, gap, row-gap, column-gap
 - Sizing: width, height, min-width, min-height, max-width, max-height
 - Spacing: padding, margin (all directions)
 - Background: background-color, background (solid colors)
 - Border: border-radius, border-width, border-color, border-style
-- Typography: font-size, font-weight, font-family, color, text-align, line-height, letter-spacing
+- Typography: font-size, font-weight, font-family, color, text-align, line-height, letter-spacing (inherited from ancestors like in CSS, with inherit/initial/unset and bolder/lighter)
+- Inline text: <b>, <em>, <a href>, <code>, styled <span>s etc. inside a paragraph become styled ranges (fonts, colors, decorations, links) of one text layer
+- Whitespace: CSS white-space collapsing (normal, nowrap, pre, pre-wrap, pre-line), <br> line breaks, <pre>/<code> kept verbatim in a monospace font, HTML entities decoded
+- Fonts: the full font-family fallback list (including system-ui, sans-serif, serif, monospace) is matched against fonts installed in Figma, using the nearest weight/style; the result lists every fontSubstitution
 - Effects: opacity, box-shadow
+- SVG: inline <svg> icons (Heroicons, Lucide etc.) become native vectors, with currentColor resolved to the inherited color, CSS width/height, fill and stroke applied, named from aria-label or the class
+- Images: <img> src can be a local path, an http(s) URL or a data: URI (base64 or URL-encoded); formats are detected from the file contents, SVG sources become vectors and WebP, AVIF, HEIF, TIFF and BMP are converted to PNG/JPEG
+- Colors: hex (3/4/6/8 digits), all CSS named colors, currentColor, rgb()/hsl()/hwb() (comma or space syntax, / alpha), lab(), lch(), oklab(), oklch(), color(display-p3 ...), color-mix(), relative colors (rgb(from ...)) and light-dark(); wide-gamut colors are gamut mapped to sRGB
+- Stylesheets: <style> blocks with type, class, ID, attribute, descendant/child selectors and :first-child/:nth-child, resolved by specificity, !important and source order
+- Custom properties: --token declarations (inherited from ancestors and :root) and var() with fallbacks in any property
+- Design tokens: color and px custom properties on :root become Figma Variables (modes from [data-theme] and prefers-color-scheme) bound to fills, strokes, gap, padding and radius
+- Grid: display: grid with grid-template-columns/rows (px, %, fr, auto, minmax(), repeat() incl. auto-fill/auto-fit), grid-template-areas, grid-column/grid-row spans and gap, built as Figma grid auto layout
+- Units: px, em (element font size), rem, %, vw, vh, vmin, vmax, ch, ex, pt and calc()/min()/max()/clamp() with nesting and mixed units
+- Viewport: the viewport input (e.g. "iphone-15" → 393×852) or <meta name="viewport" content="width=..."> (ignored when breakpoints are given) fixes the root frame width and is the base for top-level %, vw and vh
+- Responsive: @media queries (min-/max-width, range syntax, orientation, prefers-color-scheme, and/or/not) are evaluated against the viewport; the breakpoints input (e.g. [375, 768, 1440]) renders one frame per viewport side by side, named "Name / 375"
+- Document: full pages work as-is: <body> styles (layout, padding, border, background, or the <html> background) go to the root frame, <title> names it, <meta name="description"> describes it and <link rel="stylesheet"> sheets join the cascade (http(s) sheets are downloaded once per call; relative paths are skipped since the HTML has no base directory; web font services are skipped)
+- Screens: with layout "screens", each <section data-screen="Login"> (or each top-level element) becomes its own frame, left to right with the spacing input between them; section: true wraps them in a Figma Section named after the flow
+- Prototype: between screens, <a href="#checkout"> and data-navigate="Checkout" (a screen name or an id inside it) become click-to-navigate reactions, data-overlay="Menu" opens a screen as an overlay, data-navigate="back"/"close" go back or close the overlay, and the first screen starts a flow (a link inside running text makes its whole text layer clickable)
+- Output: a ComponentNode per rendering by default (listed by list_components, with description, documentation link and key), plain frames with output "frame", or a component set with one variant per breakpoint with output "component-set"
+- States: :hover, :active, :focus and :disabled rules on buttons, links and form fields become a component set (State=Default/Hover/Pressed/Focused/Disabled) with prototype reactions between the states; the layout uses an instance of the Default state
+- Result: the created node plus an elements list mapping source elements to their nodes by path (e.g. "div[1]/p[2]"), id and data-name, with node ID, type and final size (layers inside state-variant instances included); by default only elements with an id or data-name are listed (detail "all" lists every element); with several frames each entry in frames carries its own list
 
 Example usage:
 \`\`\`html
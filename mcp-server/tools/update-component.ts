@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { getWebSocketServer } from '../websocket';
+import { parseHTML } from '../html-parser';
+import { resolveViewport, VIEWPORT_PRESETS } from '../viewports';
+import { sendCreateComponent } from './create-component';
+import type { UpdateComponentMessage, ComponentUpdateResult } from '../../shared/types';
+
+export const updateComponentSchema = z.object({
+  nodeId: z.string().describe('ID of the frame or component to update, as returned by create_component_from_html.'),
+  html: z.string().describe('The new HTML code for the node. Can include inline styles or a <style> tag.'),
+  viewport: z.string().optional().describe(`Optional viewport, as used when the node was created: a preset (${Object.keys(VIEWPORT_PRESETS).join(', ')}) or WIDTHxHEIGHT such as "393x852". Without it the node hugs its content.`),
+  detail: z.enum(['root', 'named', 'all']).optional().describe('Which elements the result maps to their Figma nodes: "named" (default) for elements with an id or data-name attribute, "all" for every element, "root" for none.'),
+});
+
+export type UpdateComponentInput = z.infer<typeof updateComponentSchema>;
+
+export async function updateComponent(input: UpdateComponentInput): Promise<ComponentUpdateResult> {
+  const ws = getWebSocketServer();
+
+  if (!ws.isConnected()) {
+    throw new Error(
+      'Figma plugin is not connected. Please:\n' +
+      '1. Open Figma\n' +
+      '2. Open a design file\n' +
+      '3. Run the AI Designer plugin (Plugins > AI Designer)'
+    );
+  }
+
+  const viewport = input.viewport ? resolveViewport(input.viewport) : undefined;
+  const { elements, root, designTokens, viewport: layoutViewport, source } = await parseHTML(input.html, undefined, viewport);
+
+  if (elements.length === 0) {
+    throw new Error('No valid HTML elements found in the provided HTML');
+  }
+
+  const message: UpdateComponentMessage = {
+    id: ws.generateId(),
+    type: 'update_component',
+    payload: {
+      nodeId: input.nodeId,
+      elements,
+      root,
+      designTokens,
+      viewport: layoutViewport,
+      source,
+      detail: input.detail,
+    },
+  };
+
+  return await sendCreateComponent(message) as ComponentUpdateResult;
+}
+
+export const updateComponentTool = {
+  name: 'update_component_from_html',
+  description: `Re-render an existing Figma frame or component from new HTML, in place. Use it to refine a design instead of creating a new copy.
+
+The HTML is converted like create_component_from_html. The node keeps its ID, position and parent. Layers are matched to elements by key: data-key, else the id attribute, else the tag's position among same-tag siblings (give repeated items a data-key so reordering them moves layers instead of rewriting them). Matched layers keep their IDs, so instances, prototype links and comments on them survive, and only properties the HTML changed since the last render are patched, so manual tweaks elsewhere stay. New elements are added, layers of removed elements are deleted, and layers added by hand in Figma are left alone.
+
+Returns the node with its element→node map (see create_component_from_html) plus a change summary: counts of added, removed, modified, moved and unchanged layers, and the changed layers with their keys and patched properties.`,
+  inputSchema: updateComponentSchema,
+  handler: updateComponent,
+};
@@ -0,0 +1,91 @@
+/**
+ * Viewport presets and <meta name="viewport"> handling (MCP Server side)
+ * The viewport sizes the root frame and is the containing block for %, vw and vh
+ */
+
+import { HTMLElement } from 'node-html-parser';
+import { DEFAULT_VIEWPORT } from '../shared/css-length';
+import type { Viewport } from '../shared/types';
+
+// Common device and desktop sizes (CSS px)
+export const VIEWPORT_PRESETS: Record<string, Viewport> = {
+  'iphone-se': { width: 375, height: 667 },
+  'iphone-15': { width: 393, height: 852 },
+  'iphone-15-pro': { width: 393, height: 852 },
+  'iphone-15-pro-max': { width: 430, height: 932 },
+  'android': { width: 412, height: 915 },
+  'ipad-mini': { width: 744, height: 1133 },
+  'ipad': { width: 820, height: 1180 },
+  'ipad-pro': { width: 1024, height: 1366 },
+  'desktop-1280': { width: 1280, height: 800 },
+  'desktop-1440': { width: 1440, height: 900 },
+  'desktop-1920': { width: 1920, height: 1080 },
+};
+
+const SIZE_PATTERN = /^(\d+(?:\.\d+)?)\s*[x×*]\s*(\d+(?:\.\d+)?)$/i;
+
+// Resolve a viewport tool input: a preset name or "WIDTHxHEIGHT"
+export function resolveViewport(input: string): Viewport {
+  const value = input.trim().toLowerCase();
+  const preset = VIEWPORT_PRESETS[value];
+  if (preset) return { ...preset };
+
+  const match = value.match(SIZE_PATTERN);
+  if (match) {
+    const width = parseFloat(match[1]);
+    const height = parseFloat(match[2]);
+    if (width > 0 && height > 0) return { width, height };
+  }
+
+  throw new Error(
+    `Unknown viewport "${input}". Use WIDTHxHEIGHT (e.g. 393x852) or one of: ${Object.keys(VIEWPORT_PRESETS).join(', ')}`
+  );
+}
+
+// Resolve a breakpoint: a width in px (height from a preset of that width, if any),
+// a preset name or "WIDTHxHEIGHT"
+export function resolveBreakpoint(input: string | number): Viewport {
+  const width = typeof input === 'number' ? input : /^\s*\d+(\.\d+)?\s*(px)?\s*$/i.test(input) ? parseFloat(input) : null;
+  if (width === null) return resolveViewport(input as string);
+  if (!(width > 0)) throw new Error(`Invalid breakpoint width: ${input}`);
+
+  const preset = Object.values(VIEWPORT_PRESETS).find(viewport => viewport.width === width);
+  return { width, height: preset?.height ?? DEFAULT_VIEWPORT.height };
+}
+
+// Parse the content of <meta name="viewport"> into its width/height settings
+// Returns a number for explicit sizes and 'device' for device-width/device-height
+function parseViewportContent(content: string): { width?: number | 'device'; height?: number | 'device' } {
+  const result: { width?: number | 'device'; height?: number | 'device' } = {};
+  for (const part of content.split(/[,;]/)) {
+    const [key, rawValue] = part.split('=').map(s => s.trim().toLowerCase());
+    if ((key !== 'width' && key !== 'height') || !rawValue) continue;
+
+    if (rawValue === 'device-width' || rawValue === 'device-height') {
+      result[key] = 'device';
+    } else {
+      const size = parseFloat(rawValue);
+      if (!isNaN(size) && size > 0) result[key] = size;
+    }
+  }
+  return result;
+}
+
+// Apply <meta name="viewport"> to the device viewport, like a mobile browser does:
+// an explicit width sets the layout viewport, device-width keeps the device size
+// Returns undefined when neither a device viewport nor an explicit meta width is known
+export function applyMetaViewport(root: HTMLElement, device: Viewport | undefined): Viewport | undefined {
+  const meta = root.querySelectorAll('meta').find(
+    element => element.getAttribute('name')?.toLowerCase() === 'viewport'
+  );
+  const content = meta?.getAttribute('content');
+  if (!content) return device;
+
+  const { width, height } = parseViewportContent(content);
+  if (typeof width !== 'number') return device;
+
+  if (typeof height === 'number') return { width, height };
+  // Keep the device's aspect ratio for the layout viewport height
+  if (device) return { width, height: Math.round(device.height * width / device.width) };
+  return { width, height: DEFAULT_VIEWPORT.height };
+}
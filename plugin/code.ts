@@ -13,9 +13,29 @@ import type {
   SerializedNode,
   PluginStatus,
   ComponentCreationResult,
+  ComponentUpdateResult,
+  CreatedFrame,
+  OutputMode,
   ParsedElement,
+  DesignTokens,
+  Viewport,
+  ParsedBreakpoint,
+  ParsedVariant,
+  ParsedScreen,
+  UpdateComponentMessage,
+  UpdateChangeSummary,
+  RenderSource,
+  ParsedRootStyle,
+  ResultDetail,
+  ElementNodeMapping,
 } from '../shared/types';
-import { createFigmaNode, applyFrameStyles, applyTextStyles } from './html-parser';
+import { createFigmaNode, applyFrameStyles, applyTextStyles, applyRootFrameStyles, setViewport } from './html-parser';
+import { prepareFonts, getFontSubstitutions } from './fonts';
+import { prepareVariables, clearVariables } from './variables';
+import { resetStateComponentSets, getStateComponentSets } from './state-variants';
+import { resetPrototypeLinks, wirePrototypeLinks } from './prototype-links';
+import { syncNodeTree, recordRendering } from './node-sync';
+import { setRootSource, getElementIdentity } from './plugin-data';
 
 const PLUGIN_VERSION = '0.1.0';
 
@@ -46,13 +66,254 @@ function serializeNode(node: SceneNode): SerializedNode {
   return serialized;
 }
 
+// Default horizontal space between breakpoint and screen frames
+const BREAKPOINT_GAP = 80;
+
+// Space between a section's edges and the nodes it wraps
+const SECTION_PADDING = 80;
+
+// Create the root frame for one rendering of the parsed elements
+async function createRootFrame(
+  elements: ParsedElement[],
+  name: string,
+  viewport?: Viewport,
+  root?: ParsedRootStyle
+): Promise<FrameNode> {
+  const rootFrame = figma.createFrame();
+  rootFrame.name = name;
+  rootFrame.layoutMode = 'VERTICAL';
+  rootFrame.primaryAxisSizingMode = 'AUTO';
+  rootFrame.counterAxisSizingMode = 'AUTO';
+  rootFrame.fills = [];
+
+  setViewport(viewport);
+  try {
+    // Body layout, padding and background (a flex body lays the layers out in a row)
+    if (root) {
+      applyRootFrameStyles(rootFrame, root);
+    }
+
+    // A viewport fixes the root width and gives it at least one screen of height;
+    // top-level %, vw and vh lengths resolve against it
+    if (viewport) {
+      // (the body styles may have changed the layout direction)
+      if ((rootFrame as FrameNode).layoutMode === 'HORIZONTAL') {
+        rootFrame.primaryAxisSizingMode = 'FIXED';
+      } else {
+        rootFrame.counterAxisSizingMode = 'FIXED';
+      }
+      rootFrame.resize(viewport.width, viewport.height);
+      rootFrame.minHeight = viewport.height;
+    }
+
+    // Layers fill the content box, inside the body padding
+    const contentWidth = viewport && viewport.width - rootFrame.paddingLeft - rootFrame.paddingRight;
+    const contentHeight = viewport && viewport.height - rootFrame.paddingTop - rootFrame.paddingBottom;
+    for (const element of elements) {
+      await createFigmaNode(element, rootFrame, contentWidth, contentHeight);
+    }
+  } finally {
+    setViewport(undefined);
+  }
+
+  return rootFrame;
+}
+
+// Description and documentation links shown in the component's inspector and library
+interface PublishableInfo {
+  description?: string;
+  documentationLinks?: string[];
+}
+
+function applyPublishableInfo(node: ComponentNode | ComponentSetNode, info: PublishableInfo): void {
+  if (info.description) {
+    node.description = info.description;
+  }
+  if (info.documentationLinks && info.documentationLinks.length > 0) {
+    // Figma currently keeps a single documentation link per component
+    if (info.documentationLinks.length > 1) {
+      console.warn('Only the first documentation link is kept:', info.documentationLinks[0]);
+    }
+    node.documentationLinks = [{ uri: info.documentationLinks[0] }];
+  }
+}
+
+// Convert a root frame into a component in place (children, position and parent are kept)
+function toComponent(frame: FrameNode, info: PublishableInfo): ComponentNode {
+  const component = figma.createComponentFromNode(frame);
+  applyPublishableInfo(component, info);
+  return component;
+}
+
+// Element identity of an instance sublayer, read from the main component layer it comes from
+// (sublayer IDs look like "I<instance>;<main component layer>")
+async function getSourceIdentity(node: SceneNode): Promise<ReturnType<typeof getElementIdentity>> {
+  const sourceId = node.id.split(';').pop();
+  const source = sourceId && sourceId !== node.id ? await figma.getNodeByIdAsync(sourceId) : null;
+  return source ? getElementIdentity(source) : null;
+}
+
+// Nodes rendered from source elements in document order, found through the element
+// path in their pluginData; 'named' keeps the elements with an id or data-name.
+// Layers inside instances (interactive elements with state variants) are reported with their own IDs
+async function mapElementNodes(root: SceneNode, detail: ResultDetail): Promise<ElementNodeMapping[]> {
+  const mappings: ElementNodeMapping[] = [];
+  const visit = async (node: SceneNode, inInstance: boolean): Promise<void> => {
+    const identity = getElementIdentity(node) ?? (inInstance ? await getSourceIdentity(node) : null);
+    if (identity && (detail === 'all' || identity.id || identity.name)) {
+      mappings.push({
+        ...identity,
+        nodeId: node.id,
+        type: node.type,
+        width: node.width,
+        height: node.height,
+      });
+    }
+    if ('children' in node) {
+      for (const child of node.children) {
+        await visit(child, inInstance || node.type === 'INSTANCE');
+      }
+    }
+  };
+  if ('children' in root) {
+    for (const child of root.children) {
+      await visit(child, false);
+    }
+  }
+  return mappings;
+}
+
+async function describeCreatedNode(node: FrameNode | ComponentNode | ComponentSetNode, detail: ResultDetail = 'root'): Promise<CreatedFrame> {
+  const created: CreatedFrame = {
+    nodeId: node.id,
+    name: node.name,
+    type: node.type,
+    width: node.width,
+    height: node.height,
+  };
+  if (node.type !== 'FRAME') {
+    created.key = node.key;
+  }
+  if (detail !== 'root') {
+    created.elements = await mapElementNodes(node, detail);
+  }
+  return created;
+}
+
+// One root frame to create: the parsed elements of a variant, a breakpoint or the whole HTML
+interface Rendering {
+  elements: ParsedElement[];
+  root?: ParsedRootStyle;
+  name: string;
+  viewport?: Viewport;
+  properties: Record<string, string>;
+  source?: RenderSource;
+}
+
+// Space around and between variants inside a component set
+const VARIANT_PADDING = 40;
+const VARIANT_GAP = 40;
+
+// Variant component name: "State=Hover, Size=Large"
+function formatVariantName(properties: Record<string, string>): string {
+  return Object.entries(properties).map(([property, value]) => `${property}=${value}`).join(', ');
+}
+
+// Arrange variants in a grid: a column per value of the first property and a row per
+// combination of the other properties, then fit the component set around them
+function layoutVariantGrid(componentSet: ComponentSetNode, components: ComponentNode[], properties: Record<string, string>[]): void {
+  const propertyNames: string[] = [];
+  for (const values of properties) {
+    for (const property of Object.keys(values)) {
+      if (!propertyNames.includes(property)) propertyNames.push(property);
+    }
+  }
+  const [columnProperty, ...rowProperties] = propertyNames;
+
+  const columnKeys: string[] = [];
+  const rowKeys: string[] = [];
+  const cells = properties.map(values => {
+    const column = values[columnProperty] ?? '';
+    const row = rowProperties.map(property => values[property] ?? '').join(', ');
+    if (!columnKeys.includes(column)) columnKeys.push(column);
+    if (!rowKeys.includes(row)) rowKeys.push(row);
+    return { column: columnKeys.indexOf(column), row: rowKeys.indexOf(row) };
+  });
+
+  const columnWidths = columnKeys.map(() => 0);
+  const rowHeights = rowKeys.map(() => 0);
+  components.forEach((component, index) => {
+    const { column, row } = cells[index];
+    columnWidths[column] = Math.max(columnWidths[column], component.width);
+    rowHeights[row] = Math.max(rowHeights[row], component.height);
+  });
+
+  const offsets = (sizes: number[]) => sizes.map((_, index) =>
+    VARIANT_PADDING + sizes.slice(0, index).reduce((sum, size) => sum + size + VARIANT_GAP, 0));
+  const columnX = offsets(columnWidths);
+  const rowY = offsets(rowHeights);
+  components.forEach((component, index) => {
+    component.x = columnX[cells[index].column];
+    component.y = rowY[cells[index].row];
+  });
+
+  const total = (sizes: number[]) => sizes.reduce((sum, size) => sum + size, 0) +
+    VARIANT_GAP * (sizes.length - 1) + VARIANT_PADDING * 2;
+  const setX = componentSet.x;
+  const setY = componentSet.y;
+  componentSet.resizeWithoutConstraints(total(columnWidths), total(rowHeights));
+  componentSet.x = setX;
+  componentSet.y = setY;
+}
+
+// Wrap positioned nodes in a section sized around them; they keep their place on the canvas
+function wrapInSection(nodes: SceneNode[], parent: BaseNode & ChildrenMixin, name: string): SectionNode {
+  const minX = Math.min(...nodes.map(node => node.x));
+  const minY = Math.min(...nodes.map(node => node.y));
+  const maxX = Math.max(...nodes.map(node => node.x + node.width));
+  const maxY = Math.max(...nodes.map(node => node.y + node.height));
+
+  const section = figma.createSection();
+  section.name = name;
+  parent.appendChild(section);
+  section.x = minX - SECTION_PADDING;
+  section.y = minY - SECTION_PADDING;
+  section.resizeWithoutConstraints(maxX - minX + SECTION_PADDING * 2, maxY - minY + SECTION_PADDING * 2);
+
+  // Children of a section are positioned relative to it
+  for (const node of nodes) {
+    const { x, y } = node;
+    section.appendChild(node);
+    node.x = x - section.x;
+    node.y = y - section.y;
+  }
+  return section;
+}
+
 // Create component from parsed elements (HTML is parsed on MCP server side)
+// With breakpoints, screens or variants, one frame per rendering is placed side by side
 async function handleCreateComponent(payload: {
   elements: ParsedElement[];
+  root?: ParsedRootStyle;
   name?: string;
   parentId?: string;
+  designTokens?: DesignTokens;
+  viewport?: Viewport;
+  breakpoints?: ParsedBreakpoint[];
+  variants?: ParsedVariant[];
+  screens?: ParsedScreen[];
+  spacing?: number;
+  section?: boolean;
+  output?: OutputMode;
+  description?: string;
+  documentationLinks?: string[];
+  source?: RenderSource;
+  detail?: ResultDetail;
 }): Promise<ComponentCreationResult> {
-  const { elements, name = 'AI Component', parentId } = payload;
+  const {
+    elements, root, name = 'AI Component', parentId, designTokens, viewport, breakpoints, variants, screens,
+    spacing = BREAKPOINT_GAP, section = false, output = 'component', description, documentationLinks, source, detail = 'named',
+  } = payload;
 
   if (!elements || elements.length === 0) {
     throw new Error('No valid HTML elements found');
@@ -67,37 +328,219 @@ async function handleCreateComponent(payload: {
     }
   }
 
-  // Create root frame for the component
-  const rootFrame = figma.createFrame();
-  rootFrame.name = name;
-  rootFrame.layoutMode = 'VERTICAL';
-  rootFrame.primaryAxisSizingMode = 'AUTO';
-  rootFrame.counterAxisSizingMode = 'AUTO';
-  rootFrame.fills = [];
+  // One rendering per variant, per breakpoint, or a single one
+  // (variant properties name the components when they become a component set)
+  let renderings: Rendering[] = [{ elements, root, name, viewport, properties: { Variant: 'Default' }, source }];
+  if (variants && variants.length > 0) {
+    renderings = variants.map(variant => ({
+      elements: variant.elements,
+      root: variant.root,
+      name: formatVariantName(variant.properties),
+      viewport: variant.viewport,
+      properties: variant.properties,
+      source: variant.source,
+    }));
+  } else if (breakpoints && breakpoints.length > 0) {
+    renderings = breakpoints.map(breakpoint => ({
+      elements: breakpoint.elements,
+      root: breakpoint.root,
+      name: `${name} / ${breakpoint.viewport.width}`,
+      viewport: breakpoint.viewport,
+      properties: { Viewport: String(breakpoint.viewport.width) },
+      source,
+    }));
+  } else if (screens && screens.length > 0) {
+    renderings = screens.map(screen => ({
+      elements: screen.elements,
+      root,
+      name: screen.name,
+      viewport,
+      properties: { Screen: screen.name },
+      source,
+    }));
+  }
 
-  // Create nodes from parsed elements
-  for (const element of elements) {
-    await createFigmaNode(element, rootFrame);
+  // Create variables for design tokens and load fonts, then nodes from parsed elements
+  const rootFrames: FrameNode[] = [];
+  await prepareVariables(designTokens);
+  await prepareFonts(renderings.flatMap(rendering => rendering.elements));
+  resetStateComponentSets();
+  resetPrototypeLinks();
+  try {
+    for (const rendering of renderings) {
+      const rootFrame = await createRootFrame(rendering.elements, rendering.name, rendering.viewport, rendering.root);
+      if (rendering.source) {
+        setRootSource(rootFrame, rendering.source);
+      }
+      rootFrames.push(rootFrame);
+    }
+  } catch (error) {
+    // Don't leave the frames and state components made before the failure on the page
+    for (const node of [...rootFrames, ...getStateComponentSets()]) {
+      if (!node.removed) node.remove();
+    }
+    resetStateComponentSets();
+    resetPrototypeLinks();
+    throw error;
+  } finally {
+    clearVariables();
   }
 
   // Add to parent
-  parent.appendChild(rootFrame);
+  for (const rootFrame of rootFrames) {
+    parent.appendChild(rootFrame);
+  }
+
+  // Position in viewport: frames side by side, top-aligned, centered as a group
+  const center = figma.viewport.center;
+  const totalWidth = rootFrames.reduce((sum, frame) => sum + frame.width, 0) + spacing * (rootFrames.length - 1);
+  const maxHeight = Math.max(...rootFrames.map(frame => frame.height));
+  let x = center.x - totalWidth / 2;
+  for (const rootFrame of rootFrames) {
+    rootFrame.x = x;
+    rootFrame.y = center.y - maxHeight / 2;
+    x += rootFrame.width + spacing;
+  }
+
+  // State component sets of interactive elements go in a row below the frames
+  const stateSets = getStateComponentSets();
+  let stateX = center.x - totalWidth / 2;
+  for (const stateSet of stateSets) {
+    stateSet.x = stateX;
+    stateSet.y = center.y + maxHeight / 2 + BREAKPOINT_GAP;
+    stateX += stateSet.width + BREAKPOINT_GAP;
+  }
+
+  // Turn the positioned frames into the requested node type
+  const publishable = { description, documentationLinks };
+  let nodes: (FrameNode | ComponentNode | ComponentSetNode)[] = rootFrames;
+  if (output === 'component') {
+    nodes = rootFrames.map(frame => toComponent(frame, publishable));
+  } else if (output === 'component-set') {
+    const components = rootFrames.map((frame, index) => {
+      frame.name = formatVariantName(renderings[index].properties);
+      return toComponent(frame, {});
+    });
+    const componentSet = figma.combineAsVariants(components, parent);
+    componentSet.name = name;
+    applyPublishableInfo(componentSet, publishable);
+    layoutVariantGrid(componentSet, components, renderings.map(rendering => rendering.properties));
+    nodes = [componentSet];
+  }
+
+  // Sections can only live on a page or inside another section
+  const container = parent as BaseNode & ChildrenMixin;
+  const onCanvas = container.type === 'PAGE' || container.type === 'SECTION';
+  let sectionNode: SectionNode | undefined;
+  if (section) {
+    if (onCanvas) {
+      sectionNode = wrapInSection([...nodes, ...stateSets], container, name);
+    } else {
+      console.warn('A section can only be created on a page or in another section; skipped inside', container.type);
+    }
+  }
+
+  // Links between screens navigate between the top-level frames (variants can't be destinations)
+  let prototypeLinks = 0;
+  if (screens && screens.length > 1 && output !== 'component-set') {
+    if (onCanvas) {
+      prototypeLinks = await wirePrototypeLinks(nodes, name);
+    } else {
+      console.warn('Prototype links need top-level screens; skipped inside', container.type);
+    }
+  }
 
-  // Position in viewport
-  const viewport = figma.viewport.center;
-  rootFrame.x = viewport.x - rootFrame.width / 2;
-  rootFrame.y = viewport.y - rootFrame.height / 2;
+  // Remember what was rendered so update_component_from_html only patches what the HTML changes
+  for (const node of [...nodes, ...stateSets]) {
+    recordRendering(node);
+  }
 
   // Select and zoom to the new component
-  figma.currentPage.selection = [rootFrame];
-  figma.viewport.scrollAndZoomIntoView([rootFrame]);
+  figma.currentPage.selection = nodes;
+  figma.viewport.scrollAndZoomIntoView(nodes);
 
-  return {
-    nodeId: rootFrame.id,
-    name: rootFrame.name,
-    width: rootFrame.width,
-    height: rootFrame.height,
-  };
+  // With several frames or variants, each entry in `frames` maps its own elements
+  const rootNode = nodes[0];
+  const multiple = nodes.length > 1 || rootNode.type === 'COMPONENT_SET';
+  const result: ComponentCreationResult = await describeCreatedNode(rootNode, multiple ? 'root' : detail);
+  if (nodes.length > 1) {
+    result.frames = await Promise.all(nodes.map(node => describeCreatedNode(node, detail)));
+  } else if (rootNode.type === 'COMPONENT_SET') {
+    result.frames = await Promise.all(rootNode.children.map(child => describeCreatedNode(child as ComponentNode, detail)));
+  }
+  const fontSubstitutions = getFontSubstitutions();
+  if (fontSubstitutions.length > 0) {
+    result.fontSubstitutions = fontSubstitutions;
+  }
+  if (stateSets.length > 0) {
+    result.stateComponents = await Promise.all(stateSets.map(stateSet => describeCreatedNode(stateSet)));
+  }
+  if (sectionNode) {
+    result.section = { nodeId: sectionNode.id, name: sectionNode.name };
+  }
+  if (prototypeLinks > 0) {
+    result.prototypeLinks = prototypeLinks;
+  }
+  return result;
+}
+
+// Re-render a frame or component created from HTML in place: it keeps its ID, position
+// and parent, its layers are reconciled by element key and the changes are reported
+async function handleUpdateComponent(payload: UpdateComponentMessage['payload']): Promise<ComponentUpdateResult> {
+  const { nodeId, elements, root, designTokens, viewport, source, detail = 'named' } = payload;
+
+  if (!elements || elements.length === 0) {
+    throw new Error('No valid HTML elements found');
+  }
+
+  const target = await figma.getNodeByIdAsync(nodeId);
+  if (!target) {
+    throw new Error(`Node not found: ${nodeId}`);
+  }
+  if (target.type !== 'FRAME' && target.type !== 'COMPONENT') {
+    throw new Error(`Node ${nodeId} is a ${target.type}; only frames and components can be updated from HTML`);
+  }
+
+  // Render the new HTML off to the side, then copy it onto the existing node
+  let rendered: FrameNode;
+  await prepareVariables(designTokens);
+  await prepareFonts(elements);
+  resetStateComponentSets();
+  try {
+    rendered = await createRootFrame(elements, target.name, viewport, root);
+  } finally {
+    clearVariables();
+  }
+  let changes: UpdateChangeSummary;
+  try {
+    changes = await syncNodeTree(target, rendered);
+  } finally {
+    rendered.remove();
+  }
+  if (source) {
+    setRootSource(target, source);
+  }
+
+  // State component sets that weren't merged into existing ones go below the node
+  const stateSets = getStateComponentSets().filter(stateSet => !stateSet.removed);
+  const bounds = target.absoluteBoundingBox;
+  let stateX = bounds?.x ?? target.x;
+  for (const stateSet of stateSets) {
+    stateSet.x = stateX;
+    stateSet.y = (bounds ? bounds.y + bounds.height : target.y + target.height) + BREAKPOINT_GAP;
+    stateX += stateSet.width + BREAKPOINT_GAP;
+    recordRendering(stateSet);
+  }
+
+  const result: ComponentUpdateResult = { ...(await describeCreatedNode(target, detail)), changes };
+  const fontSubstitutions = getFontSubstitutions();
+  if (fontSubstitutions.length > 0) {
+    result.fontSubstitutions = fontSubstitutions;
+  }
+  if (stateSets.length > 0) {
+    result.stateComponents = await Promise.all(stateSets.map(stateSet => describeCreatedNode(stateSet)));
+  }
+  return result;
 }
 
 // Get current selection
@@ -160,6 +603,9 @@ figma.ui.onmessage = async (msg: Message) => {
       case 'create_component':
         result = await handleCreateComponent(request.payload);
         break;
+      case 'update_component':
+        result = await handleUpdateComponent(request.payload);
+        break;
       case 'get_selection':
         result = handleGetSelection();
         break;
@@ -0,0 +1,273 @@
+/**
+ * Font resolution
+ * Matches CSS font-family lists, weights and styles against the fonts installed in Figma
+ */
+
+import type { FontSubstitution, ParsedElement, ParsedStyle } from '../shared/types';
+
+const FALLBACK_FAMILY = 'Inter';
+const FALLBACK_FONT: FontName = { family: FALLBACK_FAMILY, style: 'Regular' };
+
+// Installed fonts in Figma for generic CSS families, in order of preference
+const GENERIC_FAMILIES: Record<string, string[]> = {
+  'system-ui': ['SF Pro Text', 'SF Pro', 'Segoe UI', 'Roboto', 'Inter'],
+  '-apple-system': ['SF Pro Text', 'SF Pro', 'Inter'],
+  'blinkmacsystemfont': ['SF Pro Text', 'SF Pro', 'Inter'],
+  'ui-sans-serif': ['SF Pro Text', 'Segoe UI', 'Roboto', 'Inter'],
+  'sans-serif': ['Inter', 'Helvetica Neue', 'Helvetica', 'Arial', 'Roboto'],
+  'ui-serif': ['New York', 'Georgia', 'Times New Roman', 'Noto Serif'],
+  'serif': ['Times New Roman', 'Times', 'Georgia', 'Noto Serif', 'Roboto Serif'],
+  'ui-monospace': ['SF Mono', 'Menlo', 'Roboto Mono', 'Consolas'],
+  'monospace': ['Roboto Mono', 'SF Mono', 'Menlo', 'Consolas', 'Source Code Pro', 'Courier New'],
+  'ui-rounded': ['SF Pro Rounded', 'Nunito', 'Inter'],
+  'cursive': ['Comic Sans MS', 'Caveat', 'Dancing Script'],
+  'fantasy': ['Impact', 'Papyrus'],
+  'emoji': ['Apple Color Emoji', 'Noto Color Emoji', 'Segoe UI Emoji'],
+  'math': ['STIX Two Math', 'Cambria Math', 'Latin Modern Math'],
+};
+
+// Style name words and the CSS weight they stand for (compared without spaces or hyphens)
+const WEIGHT_NAMES: [string, number][] = [
+  ['hairline', 100], ['thin', 100],
+  ['extralight', 200], ['ultralight', 200],
+  ['semilight', 350], ['light', 300],
+  ['book', 400], ['regular', 400], ['normal', 400], ['roman', 400],
+  ['medium', 500],
+  ['semibold', 600], ['demibold', 600],
+  ['extrabold', 800], ['ultrabold', 800],
+  ['extrablack', 950], ['ultrablack', 950],
+  ['bold', 700],
+  ['black', 900], ['heavy', 900],
+];
+
+// Width variants are only picked when nothing else matches
+const WIDTH_VARIANT_PATTERN = /condensed|compressed|narrow|expanded|extended|wide/i;
+
+interface FontStyleInfo {
+  style: string;
+  weight: number;
+  italic: boolean;
+  widthVariant: boolean;
+}
+
+// Installed font families (lowercase name -> family with its styles), loaded by prepareFonts
+let availableFonts: Map<string, { family: string; styles: FontStyleInfo[] }> | null = null;
+const loadedFonts = new Set<string>();
+const substitutions = new Map<string, FontSubstitution>();
+
+function describeStyle(style: string): FontStyleInfo {
+  const compact = style.toLowerCase().replace(/[\s_-]/g, '');
+  const numeric = style.match(/\b([1-9]00)\b/);
+  let weight = numeric ? parseInt(numeric[1], 10) : 400;
+  if (!numeric) {
+    const named = WEIGHT_NAMES.find(([name]) => compact.includes(name));
+    if (named) weight = named[1];
+  }
+  return {
+    style,
+    weight,
+    italic: /italic|oblique/i.test(style),
+    widthVariant: WIDTH_VARIANT_PATTERN.test(style),
+  };
+}
+
+// Fetch the installed fonts once per plugin session
+async function listFonts(): Promise<void> {
+  if (availableFonts) return;
+
+  const fonts = await figma.listAvailableFontsAsync();
+  availableFonts = new Map();
+  for (const { fontName } of fonts) {
+    const key = fontName.family.toLowerCase();
+    let entry = availableFonts.get(key);
+    if (!entry) {
+      entry = { family: fontName.family, styles: [] };
+      availableFonts.set(key, entry);
+    }
+    entry.styles.push(describeStyle(fontName.style));
+  }
+}
+
+// Fonts that could not be used as requested since prepareFonts
+export function getFontSubstitutions(): FontSubstitution[] {
+  return Array.from(substitutions.values());
+}
+
+// Normalize a CSS font-weight to a number
+function toNumericWeight(fontWeight: ParsedStyle['fontWeight']): number {
+  if (typeof fontWeight === 'number') return fontWeight;
+  return fontWeight === 'bold' ? 700 : 400;
+}
+
+// Style name Figma's default fonts (Inter and most Google fonts) use for a weight
+function guessStyleName(weight: number, italic: boolean): string {
+  let name = 'Regular';
+  if (weight >= 700) name = 'Bold';
+  else if (weight >= 600) name = 'Semi Bold';
+  else if (weight >= 500) name = 'Medium';
+  else if (weight <= 300) name = 'Light';
+  if (!italic) return name;
+  return name === 'Regular' ? 'Italic' : `${name} Italic`;
+}
+
+// CSS font matching order for weights: rank 0 is the best candidate
+function weightRank(candidate: number, desired: number): number {
+  if (candidate === desired) return 0;
+  if (desired >= 400 && desired <= 500) {
+    // Between desired and 500 first, then lighter, then heavier than 500
+    if (candidate > desired && candidate <= 500) return candidate - desired;
+    if (candidate < desired) return 1000 + desired - candidate;
+    return 2000 + candidate - 500;
+  }
+  if (desired < 400) {
+    return candidate < desired ? desired - candidate : 1000 + candidate - desired;
+  }
+  return candidate > desired ? candidate - desired : 1000 + desired - candidate;
+}
+
+// Nearest installed style of a family for a weight and italic
+function pickStyle(styles: FontStyleInfo[], weight: number, italic: boolean): FontStyleInfo {
+  let best = styles[0];
+  let bestScore = Infinity;
+  for (const candidate of styles) {
+    const score = (candidate.italic !== italic ? 100000 : 0) +
+      (candidate.widthVariant ? 10000 : 0) +
+      weightRank(candidate.weight, weight);
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Expand generic families into the installed fonts they stand for
+function expandFamilies(families: string[]): string[] {
+  const expanded: string[] = [];
+  for (const family of families) {
+    expanded.push(...(GENERIC_FAMILIES[family.toLowerCase()] ?? [family]));
+  }
+  expanded.push(FALLBACK_FAMILY);
+  return expanded;
+}
+
+function recordSubstitution(
+  families: string[],
+  weight: number,
+  italic: boolean,
+  used: FontName,
+  reason: FontSubstitution['reason']
+): void {
+  const key = `${families.join(',')}|${weight}|${italic}`;
+  if (substitutions.has(key)) return;
+  substitutions.set(key, { fontFamily: families, fontWeight: weight, italic, used: { ...used }, reason });
+}
+
+// Pick the installed font for a font-family list, weight and italic (without loading it)
+// Every fallback away from the first family or the requested style is recorded as a substitution
+function pickFont(families: string[] | undefined, fontWeight: ParsedStyle['fontWeight'], italic: boolean): FontName {
+  const requested = families && families.length > 0 ? families : [FALLBACK_FAMILY];
+  const weight = toNumericWeight(fontWeight);
+
+  if (!availableFonts) {
+    // Font list not loaded: trust the first concrete family and the usual style names
+    const family = expandFamilies(requested)[0];
+    return { family, style: guessStyleName(weight, italic) };
+  }
+
+  // A leading generic family is the author's choice, not a substitution
+  const wanted = GENERIC_FAMILIES[requested[0].toLowerCase()] ?? [requested[0]];
+  for (const family of expandFamilies(requested)) {
+    const entry = availableFonts.get(family.toLowerCase());
+    if (!entry || entry.styles.length === 0) continue;
+
+    const style = pickStyle(entry.styles, weight, italic);
+    const fontName = { family: entry.family, style: style.style };
+    const isWanted = wanted.some(name => name.toLowerCase() === family.toLowerCase());
+    if (!isWanted) {
+      recordSubstitution(requested, weight, italic, fontName, 'family-unavailable');
+    } else if (style.weight !== weight || style.italic !== italic) {
+      recordSubstitution(requested, weight, italic, fontName, 'style-unavailable');
+    }
+    return fontName;
+  }
+
+  // Not even Inter is installed: use whatever font Figma has
+  const [first] = Array.from(availableFonts.values());
+  const fontName = { family: first.family, style: pickStyle(first.styles, weight, italic).style };
+  recordSubstitution(requested, weight, italic, fontName, 'family-unavailable');
+  return fontName;
+}
+
+function fontKey(fontName: FontName): string {
+  return `${fontName.family}|${fontName.style}`;
+}
+
+// Load a font once; returns false when Figma refuses it
+async function loadFont(fontName: FontName): Promise<boolean> {
+  const key = fontKey(fontName);
+  if (loadedFonts.has(key)) return true;
+  try {
+    await figma.loadFontAsync(fontName);
+    loadedFonts.add(key);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Add the fonts an element subtree will render text with
+// (mirrors the text paths in html-parser.ts, including bold headings and styled runs)
+function collectFonts(element: ParsedElement, fonts: Map<string, FontName>): void {
+  const { styles, textContent, textRuns, tagName } = element;
+  const add = (families: string[] | undefined, fontWeight: ParsedStyle['fontWeight'], fontStyle: ParsedStyle['fontStyle']) => {
+    const fontName = pickFont(families, fontWeight, isItalicStyle(fontStyle));
+    fonts.set(fontKey(fontName), fontName);
+  };
+
+  if (textContent) {
+    const weights: ParsedStyle['fontWeight'][] = /^h[1-6]$/.test(tagName) ? [styles.fontWeight, 700] : [styles.fontWeight];
+    for (const weight of weights) {
+      add(styles.fontFamily, weight, styles.fontStyle);
+      for (const run of textRuns ?? []) {
+        add(run.styles.fontFamily ?? styles.fontFamily, run.styles.fontWeight ?? weight, run.styles.fontStyle ?? styles.fontStyle);
+      }
+    }
+  }
+
+  for (const child of element.children) {
+    collectFonts(child, fonts);
+  }
+  for (const { element: variant } of element.states ?? []) {
+    collectFonts(variant, fonts);
+  }
+}
+
+// List installed fonts, then resolve and load every font the elements use in parallel,
+// so rendering can assign fonts without waiting (call once per component creation)
+export async function prepareFonts(elements: ParsedElement[]): Promise<void> {
+  substitutions.clear();
+  await listFonts();
+
+  const fonts = new Map<string, FontName>();
+  fonts.set(fontKey(FALLBACK_FONT), FALLBACK_FONT);
+  for (const element of elements) {
+    collectFonts(element, fonts);
+  }
+  await Promise.all(Array.from(fonts.values(), loadFont));
+}
+
+// Font for text styles from the fonts loaded by prepareFonts
+// Falls back to Inter Regular when the picked font could not be loaded
+export function getFont(families: string[] | undefined, fontWeight: ParsedStyle['fontWeight'], italic: boolean): FontName {
+  const fontName = pickFont(families, fontWeight, italic);
+  if (loadedFonts.has(fontKey(fontName))) return fontName;
+
+  recordSubstitution(families ?? [FALLBACK_FAMILY], toNumericWeight(fontWeight), italic, FALLBACK_FONT, 'load-failed');
+  return FALLBACK_FONT;
+}
+
+// Whether text styles ask for an italic face
+export function isItalicStyle(fontStyle: ParsedStyle['fontStyle']): boolean {
+  return fontStyle === 'italic' || fontStyle === 'oblique';
+}
@@ -0,0 +1,452 @@
+/**
+ * CSS Grid layout
+ * Resolves grid tracks and item placement, then lays the items out in a native
+ * Figma grid (or nested auto-layout rows when grid auto layout isn't available)
+ */
+
+import type { ParsedElement, ParsedStyle, GridTrack, GridTemplate, GridPlacement } from '../shared/types';
+
+// Creates a child node inside `parent` with the given available width
+export type GridChildFactory = (child: ParsedElement, parent: FrameNode, width?: number) => Promise<SceneNode>;
+
+// 0-based cell position of a grid item
+interface GridArea {
+  row: number;
+  column: number;
+  rowSpan: number;
+  columnSpan: number;
+}
+
+// Item position per axis before auto-placement (start is undefined for auto)
+interface AxisPlacement {
+  start?: number;
+  span: number;
+}
+
+interface GridItem {
+  row: AxisPlacement;
+  column: AxisPlacement;
+}
+
+// Expand repeat(auto-fill | auto-fit, ...) for the available width
+function resolveTemplate(template: GridTemplate | undefined, available: number | undefined, gap: number, itemCount: number): GridTrack[] {
+  if (!template) return [];
+  if (!template.autoRepeat) return template.tracks;
+
+  const { mode, tracks: repeatTracks, index } = template.autoRepeat;
+  const trackSize = (track: GridTrack): number => {
+    if (track.type === 'FIXED') return track.value ?? 0;
+    if (track.type === 'PERCENT' && available !== undefined) return available * (track.value ?? 0) / 100;
+    return track.min ?? 0;
+  };
+
+  let repetitions = 1;
+  const repeatSize = repeatTracks.reduce((sum, track) => sum + trackSize(track), 0);
+  if (available !== undefined && repeatSize > 0) {
+    const otherSize = template.tracks.reduce((sum, track) => sum + trackSize(track), 0);
+    const otherGaps = gap * (template.tracks.length - 1);
+    repetitions = Math.max(1, Math.floor((available - otherSize - otherGaps) / (repeatSize + gap * repeatTracks.length)));
+  }
+  // auto-fit collapses the repetitions no item lands in
+  if (mode === 'auto-fit' && template.tracks.length === 0) {
+    repetitions = Math.max(1, Math.min(repetitions, Math.ceil(itemCount / repeatTracks.length)));
+  }
+
+  const expanded: GridTrack[] = [];
+  for (let i = 0; i < repetitions; i++) {
+    expanded.push(...repeatTracks.map(track => ({ ...track })));
+  }
+  return [...template.tracks.slice(0, index), ...expanded, ...template.tracks.slice(index)];
+}
+
+// Convert CSS grid lines (1-based, negative from the end of the explicit grid) to a track range
+function resolveAxis(placement: GridPlacement | undefined, explicitCount: number): AxisPlacement {
+  if (!placement) return { span: 1 };
+
+  const toLineIndex = (line: number) => Math.max(0, line > 0 ? line - 1 : explicitCount + 1 + line);
+  let span = placement.span ?? 1;
+  let start = placement.start !== undefined ? toLineIndex(placement.start) : undefined;
+
+  if (placement.end !== undefined) {
+    const end = toLineIndex(placement.end);
+    if (start !== undefined) {
+      // Reversed lines swap, equal lines span one track
+      span = Math.max(1, Math.abs(end - start));
+      start = Math.min(start, end);
+    } else {
+      start = Math.max(0, end - span);
+    }
+  }
+
+  return { start, span };
+}
+
+// Find the rectangle a named area covers in grid-template-areas
+function resolveNamedArea(areas: string[][] | undefined, name: string): GridItem | null {
+  if (!areas) return null;
+  let top = Infinity, left = Infinity, bottom = -1, right = -1;
+  areas.forEach((row, rowIndex) => {
+    row.forEach((cell, columnIndex) => {
+      if (cell !== name) return;
+      top = Math.min(top, rowIndex);
+      left = Math.min(left, columnIndex);
+      bottom = Math.max(bottom, rowIndex);
+      right = Math.max(right, columnIndex);
+    });
+  });
+  if (bottom === -1) return null;
+  return {
+    row: { start: top, span: bottom - top + 1 },
+    column: { start: left, span: right - left + 1 },
+  };
+}
+
+// CSS grid auto-placement (sparse packing) in row-major order
+// Column flow is handled by the caller by swapping the axes
+function placeItems(items: GridItem[], columnCount: number): GridArea[] {
+  const occupied = new Set<string>();
+  const isFree = (row: number, column: number, rowSpan: number, columnSpan: number) => {
+    if (column + columnSpan > columnCount) return false;
+    for (let r = row; r < row + rowSpan; r++) {
+      for (let c = column; c < column + columnSpan; c++) {
+        if (occupied.has(`${r},${c}`)) return false;
+      }
+    }
+    return true;
+  };
+  const occupy = (area: GridArea) => {
+    for (let r = area.row; r < area.row + area.rowSpan; r++) {
+      for (let c = area.column; c < area.column + area.columnSpan; c++) {
+        occupied.add(`${r},${c}`);
+      }
+    }
+  };
+
+  const areas: (GridArea | null)[] = items.map(() => null);
+
+  // 1. Items with a definite row and column
+  items.forEach((item, i) => {
+    if (item.row.start === undefined || item.column.start === undefined) return;
+    const area = { row: item.row.start, column: item.column.start, rowSpan: item.row.span, columnSpan: item.column.span };
+    areas[i] = area;
+    occupy(area);
+  });
+
+  // 2. Items locked to a row take the first free columns in it
+  items.forEach((item, i) => {
+    if (areas[i] || item.row.start === undefined) return;
+    let column = 0;
+    while (!isFree(item.row.start, column, item.row.span, item.column.span) && column < columnCount) column++;
+    const area = { row: item.row.start, column: Math.min(column, Math.max(0, columnCount - item.column.span)), rowSpan: item.row.span, columnSpan: item.column.span };
+    areas[i] = area;
+    occupy(area);
+  });
+
+  // 3. Remaining items follow the auto-placement cursor
+  let cursorRow = 0;
+  let cursorColumn = 0;
+  items.forEach((item, i) => {
+    if (areas[i]) return;
+    const { span: rowSpan } = item.row;
+    const { span: columnSpan, start: fixedColumn } = item.column;
+
+    if (fixedColumn !== undefined) {
+      if (fixedColumn < cursorColumn) cursorRow++;
+      cursorColumn = fixedColumn;
+      while (!isFree(cursorRow, cursorColumn, rowSpan, columnSpan)) cursorRow++;
+    } else {
+      while (!isFree(cursorRow, cursorColumn, rowSpan, columnSpan)) {
+        cursorColumn++;
+        if (cursorColumn + columnSpan > columnCount) {
+          cursorColumn = 0;
+          cursorRow++;
+        }
+      }
+    }
+
+    const area = { row: cursorRow, column: cursorColumn, rowSpan, columnSpan };
+    areas[i] = area;
+    occupy(area);
+    cursorColumn += columnSpan;
+  });
+
+  return areas as GridArea[];
+}
+
+// Pixel size of each track, or undefined when it depends on content
+// fr tracks share the space left after fixed tracks; minmax() minimums are respected
+function computeTrackSizes(tracks: GridTrack[], available: number | undefined, gap: number): (number | undefined)[] {
+  const sizes: (number | undefined)[] = tracks.map(track => {
+    if (track.type === 'FIXED') return track.value;
+    if (track.type === 'PERCENT' && available !== undefined) return available * (track.value ?? 0) / 100;
+    return undefined;
+  });
+  if (available === undefined) return sizes;
+
+  const flexible = tracks.map((track, i) => track.type === 'FLEX' || (track.type === 'HUG' && sizes[i] === undefined));
+  const hasFr = tracks.some(track => track.type === 'FLEX');
+  // Without fr tracks, auto tracks stretch into the free space
+  const shares = tracks.map((track, i) => !flexible[i] ? 0 : track.type === 'FLEX' ? (track.value ?? 1) : hasFr ? 0 : 1);
+
+  let free = available - gap * (tracks.length - 1) - sizes.reduce<number>((sum, size) => sum + (size ?? 0), 0);
+  let totalShares = shares.reduce((sum, share) => sum + share, 0);
+
+  // Tracks whose share falls below their minimum become fixed at the minimum
+  let changed = true;
+  while (changed && totalShares > 0) {
+    changed = false;
+    for (let i = 0; i < tracks.length; i++) {
+      if (shares[i] === 0) continue;
+      const min = tracks[i].min ?? 0;
+      if ((Math.max(0, free) * shares[i]) / totalShares < min) {
+        sizes[i] = min;
+        free -= min;
+        totalShares -= shares[i];
+        shares[i] = 0;
+        changed = true;
+      }
+    }
+  }
+
+  for (let i = 0; i < tracks.length; i++) {
+    if (shares[i] > 0) sizes[i] = Math.max(0, free) * shares[i] / totalShares;
+  }
+  return sizes;
+}
+
+// Size of a span of tracks including the gaps inside it
+function spanSize(sizes: (number | undefined)[], start: number, span: number, gap: number): number | undefined {
+  let total = gap * (span - 1);
+  for (let i = start; i < start + span; i++) {
+    if (sizes[i] === undefined) return undefined;
+    total += sizes[i] as number;
+  }
+  return total;
+}
+
+function trySetSizing(node: SceneNode, horizontal?: 'FIXED' | 'HUG' | 'FILL', vertical?: 'FIXED' | 'HUG' | 'FILL'): void {
+  if (!('layoutSizingHorizontal' in node)) return;
+  try {
+    if (horizontal) node.layoutSizingHorizontal = horizontal;
+    if (vertical) node.layoutSizingVertical = vertical;
+  } catch {
+    // Sizing isn't allowed in this context; keep the node's own size
+  }
+}
+
+// Apply a track definition to a native grid track
+function setTrackSize(target: GridTrackSize, track: GridTrack, size: number | undefined, allowFlex: boolean): void {
+  if (track.type === 'FLEX' && allowFlex) {
+    target.type = 'FLEX';
+    target.value = track.value ?? 1;
+  } else if (track.type !== 'HUG' && size !== undefined) {
+    target.type = 'FIXED';
+    target.value = size;
+  } else {
+    target.type = 'HUG';
+  }
+}
+
+// Stretch grid items into their cells unless alignment or an explicit size says otherwise
+// `width` is the fixed cell width in the nested-row fallback, where FILL isn't available
+function alignGridChild(node: SceneNode, child: ParsedElement, container: ParsedStyle, width?: number): void {
+  const { styles } = child;
+  const justify = styles.justifySelf ?? container.justifyItems ?? 'stretch';
+  const align = styles.alignSelf && styles.alignSelf !== 'auto' ? styles.alignSelf : container.alignItems ?? 'stretch';
+  const isText = node.type === 'TEXT';
+
+  const fillWidth = justify === 'stretch' && (styles.width === undefined || styles.width === 'fill');
+  const fillHeight = align === 'stretch' && styles.height === undefined && styles.heightPercent === undefined && !isText;
+  if (fillWidth && width !== undefined && 'resize' in node) {
+    node.resize(width, node.height);
+    trySetSizing(node, 'FIXED', fillHeight ? 'FILL' : undefined);
+  } else {
+    trySetSizing(node, fillWidth && width === undefined ? 'FILL' : undefined, fillHeight ? 'FILL' : undefined);
+  }
+  if (isText && fillWidth) (node as TextNode).textAutoResize = 'HEIGHT';
+
+  if ('gridChildHorizontalAlign' in node && node.parent && 'layoutMode' in node.parent && node.parent.layoutMode === 'GRID') {
+    const alignMap: Record<string, 'MIN' | 'CENTER' | 'MAX' | 'AUTO'> = {
+      'start': 'MIN',
+      'flex-start': 'MIN',
+      'center': 'CENTER',
+      'end': 'MAX',
+      'flex-end': 'MAX',
+    };
+    node.gridChildHorizontalAlign = alignMap[justify] ?? 'AUTO';
+    node.gridChildVerticalAlign = alignMap[align] ?? 'AUTO';
+  }
+}
+
+// Lay out the children of a display: grid element
+// `contentWidth` is the container's content box width when known
+export async function createGridChildren(
+  frame: FrameNode,
+  styles: ParsedStyle,
+  children: ParsedElement[],
+  contentWidth: number | undefined,
+  createChild: GridChildFactory
+): Promise<void> {
+  const rowGap = styles.rowGap ?? styles.gap ?? 0;
+  const columnGap = styles.columnGap ?? styles.gap ?? 0;
+  const columnFlow = styles.gridAutoFlow === 'column';
+
+  // Nodes already in the frame (its own text) are anonymous auto-placed items
+  const anonymousNodes = frame.children.filter(node => !('layoutPositioning' in node) || node.layoutPositioning !== 'ABSOLUTE');
+  const itemCount = anonymousNodes.length + children.length;
+
+  const explicitColumns = resolveTemplate(styles.gridTemplateColumns, contentWidth, columnGap, itemCount);
+  const explicitRows = resolveTemplate(styles.gridTemplateRows, undefined, rowGap, itemCount);
+  const areaRows = styles.gridTemplateAreas?.length ?? 0;
+  const areaColumns = styles.gridTemplateAreas?.[0]?.length ?? 0;
+  const explicitColumnCount = Math.max(explicitColumns.length, areaColumns);
+  const explicitRowCount = Math.max(explicitRows.length, areaRows);
+
+  const items: GridItem[] = [
+    ...anonymousNodes.map(() => ({ row: { span: 1 }, column: { span: 1 } })),
+    ...children.map(child => {
+      const named = child.styles.gridArea ? resolveNamedArea(styles.gridTemplateAreas, child.styles.gridArea) : null;
+      return named ?? {
+        row: resolveAxis(child.styles.gridRow, explicitRowCount),
+        column: resolveAxis(child.styles.gridColumn, explicitColumnCount),
+      };
+    }),
+  ];
+
+  // Without column templates, a row-flow grid has a single column (and vice versa)
+  const flowCount = columnFlow ? explicitRowCount : explicitColumnCount;
+  const minorCount = Math.max(1, flowCount, ...items.map(item => {
+    const axis = columnFlow ? item.row : item.column;
+    return (axis.start ?? 0) + axis.span;
+  }));
+  const placed = columnFlow
+    ? placeItems(items.map(item => ({ row: item.column, column: item.row })), minorCount)
+      .map(area => ({ row: area.column, column: area.row, rowSpan: area.columnSpan, columnSpan: area.rowSpan }))
+    : placeItems(items, minorCount);
+
+  const columnCount = Math.max(1, explicitColumnCount, ...placed.map(area => area.column + area.columnSpan));
+  const rowCount = Math.max(1, explicitRowCount, ...placed.map(area => area.row + area.rowSpan));
+
+  const implicitColumn: GridTrack = styles.gridAutoColumns ?? { type: 'HUG' };
+  const implicitRow: GridTrack = styles.gridAutoRows ?? { type: 'HUG' };
+  const columns = Array.from({ length: columnCount }, (_, i) => explicitColumns[i] ?? implicitColumn);
+  const rows = Array.from({ length: rowCount }, (_, i) => explicitRows[i] ?? implicitRow);
+
+  const explicitHeight = typeof styles.height === 'number' ? styles.height : undefined;
+  const columnSizes = computeTrackSizes(columns, contentWidth, columnGap);
+  const rowSizes = computeTrackSizes(rows, explicitHeight, rowGap);
+
+  // Block-level grids fill their container; give hugging frames the content width
+  if (frame.layoutSizingHorizontal === 'HUG' && contentWidth !== undefined && styles.display !== 'inline-grid') {
+    const horizontalPadding = frame.paddingLeft + frame.paddingRight;
+    frame.resize(contentWidth + horizontalPadding, frame.height);
+    trySetSizing(frame, 'FIXED');
+  }
+
+  let native = true;
+  try {
+    frame.layoutMode = 'GRID';
+    frame.gridColumnCount = columnCount;
+    frame.gridRowCount = rowCount;
+    frame.gridColumnGap = columnGap;
+    frame.gridRowGap = rowGap;
+    const flexColumns = frame.layoutSizingHorizontal !== 'HUG';
+    const flexRows = frame.layoutSizingVertical !== 'HUG';
+    columns.forEach((track, i) => setTrackSize(frame.gridColumnSizes[i], track, columnSizes[i], flexColumns));
+    rows.forEach((track, i) => setTrackSize(frame.gridRowSizes[i], track, rowSizes[i], flexRows));
+  } catch (error) {
+    console.warn('Grid auto layout unavailable, using nested rows:', error);
+    native = false;
+  }
+
+  if (native) {
+    // Each node is moved to its cell right after it is added, so cells
+    // reserved for later items are never taken by auto-placed ones
+    const place = (node: SceneNode, area: GridArea) => {
+      if (!('setGridChildPosition' in node)) return;
+      try {
+        node.setGridChildPosition(area.row, area.column);
+        node.gridRowSpan = area.rowSpan;
+        node.gridColumnSpan = area.columnSpan;
+      } catch (error) {
+        console.warn('Could not place grid item:', error);
+      }
+    };
+
+    anonymousNodes.forEach((node, i) => {
+      place(node, placed[i]);
+      trySetSizing(node, 'FILL');
+      if (node.type === 'TEXT') node.textAutoResize = 'HEIGHT';
+    });
+    for (let i = 0; i < children.length; i++) {
+      const area = placed[anonymousNodes.length + i];
+      const node = await createChild(children[i], frame, spanSize(columnSizes, area.column, area.columnSpan, columnGap));
+      place(node, area);
+      alignGridChild(node, children[i], styles);
+    }
+    return;
+  }
+
+  await createGridRows(frame, styles, children, placed.slice(anonymousNodes.length), {
+    rowCount,
+    columnSizes,
+    rowSizes,
+    rowGap,
+    columnGap,
+  }, createChild);
+}
+
+// Fallback layout: one horizontal auto-layout frame per grid row
+// Items sit in the row they start in; cells covered by row spans from above become spacers
+async function createGridRows(
+  frame: FrameNode,
+  styles: ParsedStyle,
+  children: ParsedElement[],
+  areas: GridArea[],
+  tracks: { rowCount: number; columnSizes: (number | undefined)[]; rowSizes: (number | undefined)[]; rowGap: number; columnGap: number },
+  createChild: GridChildFactory
+): Promise<void> {
+  const { rowCount, columnSizes, rowSizes, rowGap, columnGap } = tracks;
+  frame.layoutMode = 'VERTICAL';
+  frame.itemSpacing = rowGap;
+
+  const addSpacer = (row: FrameNode, width: number | undefined) => {
+    const spacer = figma.createFrame();
+    spacer.name = 'grid-spacer';
+    spacer.fills = [];
+    spacer.resize(Math.max(0.01, width ?? 0), 1);
+    row.appendChild(spacer);
+  };
+
+  for (let r = 0; r < rowCount; r++) {
+    const row = figma.createFrame();
+    row.name = 'grid-row';
+    row.fills = [];
+    row.clipsContent = false;
+    row.layoutMode = 'HORIZONTAL';
+    row.itemSpacing = columnGap;
+    row.primaryAxisSizingMode = 'FIXED';
+    row.counterAxisSizingMode = rowSizes[r] !== undefined ? 'FIXED' : 'AUTO';
+    if (rowSizes[r] !== undefined) row.resize(row.width, rowSizes[r] as number);
+    frame.appendChild(row);
+    trySetSizing(row, 'FILL');
+
+    const starting = areas
+      .map((area, index) => ({ area, index }))
+      .filter(({ area }) => area.row === r)
+      .sort((a, b) => a.area.column - b.area.column);
+
+    let column = 0;
+    for (const { area, index } of starting) {
+      // Columns before this item: empty cells or cells covered by a row span from above
+      if (area.column > column) {
+        addSpacer(row, spanSize(columnSizes, column, area.column - column, columnGap));
+      }
+
+      const width = spanSize(columnSizes, area.column, area.columnSpan, columnGap);
+      const node = await createChild(children[index], row, width);
+      alignGridChild(node, children[index], styles, width);
+      column = area.column + area.columnSpan;
+    }
+  }
+}
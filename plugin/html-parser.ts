@@ -3,22 +3,15 @@
  * Creates Figma nodes from parsed HTML elements (parsing is done on MCP server side)
  */
 
-import type { ParsedStyle, ParsedElement } from '../shared/types';
-
-// Helper to apply text-transform to text content
-function applyTextTransform(text: string, transform: ParsedStyle['textTransform']): string {
-  if (!transform || transform === 'none') return text;
-  switch (transform) {
-    case 'uppercase':
-      return text.toUpperCase();
-    case 'lowercase':
-      return text.toLowerCase();
-    case 'capitalize':
-      return text.replace(/\b\w/g, char => char.toUpperCase());
-    default:
-      return text;
-  }
-}
+import type { ParsedStyle, ParsedElement, ParsedRootStyle, Viewport } from '../shared/types';
+import { applyTokenMode, bindFrameVariables, bindTextVariables } from './variables';
+import { createGridChildren } from './grid-layout';
+import { resolveStyleLengths, DEFAULT_VIEWPORT } from '../shared/css-length';
+import { applyTextTransform, applyTextRuns } from './text-runs';
+import { getFont, isItalicStyle } from './fonts';
+import { createStateInstance } from './state-variants';
+import { setElementData } from './plugin-data';
+import { registerPrototypeLink } from './prototype-links';
 
 // Track pending layout sizing styles (can only be applied after node is added to auto-layout parent)
 type LayoutSizing = 'FIXED' | 'FILL' | 'HUG';
@@ -55,6 +48,13 @@ const explicitAlignItems = new WeakMap<FrameNode, boolean>();
 // Track flex-grow values for nested recalculation
 const nestedFlexGrowMap = new WeakMap<SceneNode, number>();
 
+// Viewport that vw/vh lengths resolve against while a component is being created
+let activeViewport: Viewport = DEFAULT_VIEWPORT;
+
+export function setViewport(viewport?: Viewport): void {
+  activeViewport = viewport ?? DEFAULT_VIEWPORT;
+}
+
 // Recalculate nested flex children after parent's width is determined
 // This fixes the timing issue where flex:1 children inside a flex:1 parent
 // don't know the parent's final width when they're first created
@@ -198,14 +198,18 @@ export function applyFrameStyles(frame: FrameNode, styles: ParsedStyle, parentWi
         break;
     }
 
-    // Gap
-    if (styles.gap !== undefined) {
-      frame.itemSpacing = styles.gap;
+    // Gap (rows space items by column-gap, columns by row-gap)
+    const isRow = frame.layoutMode === 'HORIZONTAL';
+    const mainGap = (isRow ? styles.columnGap : styles.rowGap) ?? styles.gap;
+    const crossGap = (isRow ? styles.rowGap : styles.columnGap) ?? styles.gap;
+    if (mainGap !== undefined) {
+      frame.itemSpacing = mainGap;
     }
 
     // Flex wrap (must be set after layoutMode)
     if (styles.flexWrap === 'wrap' || styles.flexWrap === 'wrap-reverse') {
       frame.layoutWrap = 'WRAP';
+      if (crossGap !== undefined) frame.counterAxisSpacing = crossGap;
       // For wrap to work, Figma needs primaryAxisSizingMode = FIXED
       // The width will be set later in the sizing section
       frame.primaryAxisSizingMode = 'FIXED';
@@ -618,6 +622,18 @@ export function applyFrameStyles(frame: FrameNode, styles: ParsedStyle, parentWi
 
 }
 
+// Style a root frame like the document body it stands for; its size is left to the caller
+export function applyRootFrameStyles(frame: FrameNode, root: ParsedRootStyle): void {
+  const styles = { ...root.styles };
+  resolveStyleLengths(styles, activeViewport.width, activeViewport.height, activeViewport);
+  const name = frame.name;
+  applyFrameStyles(frame, styles);
+  // applyFrameStyles renames space-between frames for debugging
+  frame.name = name;
+  applyTokenMode(frame, root.tokenMode);
+  bindFrameVariables(frame, root.tokens);
+}
+
 // Apply styles to a Figma text node
 export function applyTextStyles(text: TextNode, styles: ParsedStyle): void {
   // Text color
@@ -634,29 +650,8 @@ export function applyTextStyles(text: TextNode, styles: ParsedStyle): void {
     text.fontSize = styles.fontSize;
   }
 
-  // Font weight and family (simplified - uses Inter as default)
-  const fontFamily = styles.fontFamily || 'Inter';
-  let fontStyle = 'Regular';
-  const isItalic = styles.fontStyle === 'italic' || styles.fontStyle === 'oblique';
-  if (styles.fontWeight) {
-    const weight = typeof styles.fontWeight === 'number' ? styles.fontWeight :
-      (styles.fontWeight === 'bold' ? 700 : 400);
-    if (weight >= 700) fontStyle = isItalic ? 'Bold Italic' : 'Bold';
-    else if (weight >= 600) fontStyle = isItalic ? 'Semi Bold Italic' : 'Semi Bold';
-    else if (weight >= 500) fontStyle = isItalic ? 'Medium Italic' : 'Medium';
-    else if (weight <= 300) fontStyle = isItalic ? 'Light Italic' : 'Light';
-    else fontStyle = isItalic ? 'Italic' : 'Regular';
-  } else if (isItalic) {
-    fontStyle = 'Italic';
-  }
-
-  // Try to load the font (async operation wrapped)
-  try {
-    text.fontName = { family: fontFamily, style: fontStyle };
-  } catch {
-    // Fallback to Inter if font not available
-    text.fontName = { family: 'Inter', style: fontStyle };
-  }
+  // Font family, weight and style (nearest installed font; must already be loaded)
+  text.fontName = getFont(styles.fontFamily, styles.fontWeight, isItalicStyle(styles.fontStyle));
 
   // Text alignment
   if (styles.textAlign) {
@@ -693,6 +688,7 @@ export function applyTextStyles(text: TextNode, styles: ParsedStyle): void {
 }
 
 // Create Figma nodes from parsed elements
+// Each node records the element it came from (key, path, tag, classes, declared CSS)
 export async function createFigmaNode(
   element: ParsedElement,
   parent: FrameNode | GroupNode | PageNode,
@@ -700,6 +696,33 @@ export async function createFigmaNode(
   parentHeight?: number,
   inheritedColor?: { r: number; g: number; b: number; a: number }
 ): Promise<SceneNode> {
+  const node = await renderElement(element, parent, parentWidth, parentHeight, inheritedColor);
+  setElementData(node, element);
+  // A text range can't have its own reaction, so a link inside the text makes the whole layer clickable
+  const link = element.link ?? element.textRuns?.find(run => run.link)?.link;
+  if (link) {
+    registerPrototypeLink(node, link);
+  }
+  return node;
+}
+
+async function renderElement(
+  element: ParsedElement,
+  parent: FrameNode | GroupNode | PageNode,
+  parentWidth?: number,
+  parentHeight?: number,
+  inheritedColor?: { r: number; g: number; b: number; a: number }
+): Promise<SceneNode> {
+  // Interactive elements with state rules become a component set; the layout gets an instance
+  if (element.states && element.states.length > 0) {
+    return createStateInstance(element, parent, (variant, variantParent) =>
+      createFigmaNode(variant, variantParent, parentWidth, parentHeight, inheritedColor)
+    );
+  }
+
+  // Resolve %, vw and vh lengths now that the parent size is known
+  // (no-op when the parent already resolved them before reading this element's margins)
+  resolveStyleLengths(element.styles, parentWidth, parentHeight, activeViewport);
   const { tagName, styles, textContent, children } = element;
 
   // Determine effective text color (own color or inherited from parent)
@@ -711,52 +734,21 @@ export async function createFigmaNode(
   // EXCEPT: if element has padding/background/border, create as frame to show those styles
   const textTags = ['span', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'label', 'a'];
   const hasFlexProperties = styles.flexGrow !== undefined && styles.flexGrow > 0;
-  const hasFrameStyles = styles.padding !== undefined ||
-    styles.paddingTop !== undefined || styles.paddingRight !== undefined ||
-    styles.paddingBottom !== undefined || styles.paddingLeft !== undefined ||
+  // Zero values (e.g. from a `* { padding: 0 }` reset) don't need a frame
+  const hasFrameStyles = !!styles.padding ||
+    !!styles.paddingTop || !!styles.paddingRight ||
+    !!styles.paddingBottom || !!styles.paddingLeft ||
     styles.backgroundColor !== undefined || styles.backgroundGradient !== undefined ||
-    styles.borderRadius !== undefined || styles.borderWidth !== undefined ||
-    styles.boxShadow !== undefined;
+    !!styles.borderRadius || !!styles.borderWidth ||
+    (styles.boxShadow !== undefined && styles.boxShadow.length > 0);
   if (textTags.includes(tagName) && textContent && children.length === 0 && !hasFlexProperties && !hasFrameStyles) {
     const textNode = figma.createText();
 
-    // Determine font style based on weight and italic
-    const fontFamily = styles.fontFamily || 'Inter';
-    let fontStyle = 'Regular';
-    const isItalic = styles.fontStyle === 'italic' || styles.fontStyle === 'oblique';
-    if (styles.fontWeight) {
-      const weight = typeof styles.fontWeight === 'number' ? styles.fontWeight :
-        (styles.fontWeight === 'bold' ? 700 : 400);
-      if (weight >= 700) fontStyle = isItalic ? 'Bold Italic' : 'Bold';
-      else if (weight >= 600) fontStyle = isItalic ? 'Semi Bold Italic' : 'Semi Bold';
-      else if (weight >= 500) fontStyle = isItalic ? 'Medium Italic' : 'Medium';
-      else if (weight <= 300) fontStyle = isItalic ? 'Light Italic' : 'Light';
-      else fontStyle = isItalic ? 'Italic' : 'Regular';
-    } else if (isItalic) {
-      fontStyle = 'Italic';
-    }
-
-    // Apply default styles based on tag
-    if (tagName.startsWith('h')) {
-      fontStyle = isItalic ? 'Bold Italic' : 'Bold';
-    }
+    // Headings are always bold
+    const fontWeight = tagName.startsWith('h') ? 700 : styles.fontWeight;
 
-    // Load and set font BEFORE setting characters
-    // Try custom font first, fallback to Inter if not available
-    try {
-      await figma.loadFontAsync({ family: fontFamily, style: fontStyle });
-      textNode.fontName = { family: fontFamily, style: fontStyle };
-    } catch {
-      // Fallback to Inter with same style
-      try {
-        await figma.loadFontAsync({ family: 'Inter', style: fontStyle });
-        textNode.fontName = { family: 'Inter', style: fontStyle };
-      } catch {
-        // Final fallback to Inter Regular
-        await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
-        textNode.fontName = { family: 'Inter', style: 'Regular' };
-      }
-    }
+    // Set font BEFORE setting characters (fonts are preloaded by prepareFonts)
+    textNode.fontName = getFont(styles.fontFamily, fontWeight, isItalicStyle(styles.fontStyle));
     // Apply text-transform before setting characters
     const transformedText = applyTextTransform(textContent, styles.textTransform);
     textNode.characters = transformedText;
@@ -837,6 +829,11 @@ export async function createFigmaNode(
       }));
     }
 
+    // Mixed inline content: style each run's range (after the node-wide styles above)
+    if (element.textRuns) {
+      applyTextRuns(textNode, element.textRuns, { ...styles, fontWeight });
+    }
+
     // Enable text wrapping for text tags when parent has a constrained width
     // Use parentWidth if available, or calculate from actual parent frame dimensions
     const parentFrame = parent as FrameNode;
@@ -903,9 +900,39 @@ export async function createFigmaNode(
       textNode.y += styles.translateY;
     }
 
+    bindTextVariables(textNode, element.tokens);
     return textNode;
   }
 
+  // Inline SVG and SVG <img> sources: native vectors (size, fill, stroke and currentColor
+  // are already in the markup)
+  if (element.svg) {
+    let svgNode: FrameNode;
+    try {
+      svgNode = figma.createNodeFromSvg(element.svg);
+    } catch (error) {
+      console.warn(`Could not convert ${tagName === 'img' ? 'SVG image' : 'inline SVG'}, using an empty frame:`, error);
+      svgNode = figma.createFrame();
+      svgNode.fills = [];
+      svgNode.resize(
+        typeof styles.width === 'number' ? styles.width : 24,
+        typeof styles.height === 'number' ? styles.height : 24
+      );
+    }
+    const { attributes } = element;
+    svgNode.name = attributes['aria-label']?.trim() || attributes.alt?.trim() || attributes.class?.trim() || tagName;
+
+    if (styles.opacity !== undefined) {
+      svgNode.opacity = styles.opacity;
+    }
+    if (styles.rotation !== undefined) {
+      svgNode.rotation = -styles.rotation;
+    }
+
+    parent.appendChild(svgNode);
+    return svgNode;
+  }
+
   // Handle img elements with image data
   if (tagName === 'img' && element.imageData) {
     const rect = figma.createRectangle();
@@ -1179,6 +1206,7 @@ export async function createFigmaNode(
   }
 
   parent.appendChild(frame);
+  applyTokenMode(frame, element.tokenMode);
 
   // Apply pending layout sizing now that frame is attached to parent
   // layoutSizingHorizontal/Vertical can only be set on children of auto-layout frames
@@ -1353,37 +1381,8 @@ export async function createFigmaNode(
   if (textContent) {
     const textNode = figma.createText();
 
-    // Determine font style based on weight and italic
-    const fontFamily = styles.fontFamily || 'Inter';
-    let fontStyle = 'Regular';
-    const isItalic = styles.fontStyle === 'italic' || styles.fontStyle === 'oblique';
-    if (styles.fontWeight) {
-      const weight = typeof styles.fontWeight === 'number' ? styles.fontWeight :
-        (styles.fontWeight === 'bold' ? 700 : 400);
-      if (weight >= 700) fontStyle = isItalic ? 'Bold Italic' : 'Bold';
-      else if (weight >= 600) fontStyle = isItalic ? 'Semi Bold Italic' : 'Semi Bold';
-      else if (weight >= 500) fontStyle = isItalic ? 'Medium Italic' : 'Medium';
-      else fontStyle = isItalic ? 'Italic' : 'Regular';
-    } else if (isItalic) {
-      fontStyle = 'Italic';
-    }
-
-    // Load and set font BEFORE setting characters
-    // Try custom font first, fallback to Inter if not available
-    try {
-      await figma.loadFontAsync({ family: fontFamily, style: fontStyle });
-      textNode.fontName = { family: fontFamily, style: fontStyle };
-    } catch {
-      // Fallback to Inter with same style
-      try {
-        await figma.loadFontAsync({ family: 'Inter', style: fontStyle });
-        textNode.fontName = { family: 'Inter', style: fontStyle };
-      } catch {
-        // Final fallback to Inter Regular
-        await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
-        textNode.fontName = { family: 'Inter', style: 'Regular' };
-      }
-    }
+    // Set font BEFORE setting characters (fonts are preloaded by prepareFonts)
+    textNode.fontName = getFont(styles.fontFamily, styles.fontWeight, isItalicStyle(styles.fontStyle));
     // Apply text-transform before setting characters
     const frameTransformedText = applyTextTransform(textContent, styles.textTransform);
     textNode.characters = frameTransformedText;
@@ -1447,6 +1446,11 @@ export async function createFigmaNode(
       }));
     }
 
+    // Mixed inline content: style each run's range (after the node-wide styles above)
+    if (element.textRuns) {
+      applyTextRuns(textNode, element.textRuns, styles);
+    }
+
     // Apply text alignment
     if (styles.textAlign) {
       const alignMap: Record<string, TextNode['textAlignHorizontal']> = {
@@ -1492,6 +1496,7 @@ export async function createFigmaNode(
 
     frame.appendChild(textNode);
     textNode.name = 'text';
+    bindTextVariables(textNode, element.tokens);
 
     // For text in vertical layouts with fill/flex sizing, make text fill width
     // This ensures text wraps correctly even when frame width is determined by flexbox
@@ -1512,6 +1517,11 @@ export async function createFigmaNode(
     }
   }
 
+  // Children's margins and offsets are read below, so resolve their lengths first
+  for (const child of children) {
+    resolveStyleLengths(child.styles, childParentWidth, childParentHeight, activeViewport);
+  }
+
   // Separate children into regular and absolute/fixed positioned
   // CSS z-index affects stacking: absolute elements with lower z-index appear behind regular content
   const regularChildren: ParsedElement[] = [];
@@ -1640,8 +1650,16 @@ export async function createFigmaNode(
     await createAbsoluteChild(child);
   }
 
+  // Grid containers place their items in tracks instead of the flow below
+  const isGridDisplay = styles.display === 'grid' || styles.display === 'inline-grid';
+  if (isGridDisplay) {
+    await createGridChildren(frame, styles, regularChildren, childParentWidth, (child, gridParent, width) =>
+      createFigmaNode(child, gridParent, width, childParentHeight, effectiveColor)
+    );
+  }
+
   // Create regular child nodes
-  for (const child of regularChildren) {
+  for (const child of isGridDisplay ? [] : regularChildren) {
     // Expand margin shorthand into individual margin properties if not already set
     if (child.styles.margin !== undefined) {
       if (child.styles.marginTop === undefined) child.styles.marginTop = child.styles.margin;
@@ -1978,5 +1996,6 @@ export async function createFigmaNode(
     intendedFixedWidth.delete(frame);
   }
 
+  bindFrameVariables(frame, element.tokens);
   return frame;
 }
@@ -0,0 +1,525 @@
+/**
+ * In-place updates
+ * Reconciles a freshly rendered node tree with an existing one. Children are matched by the
+ * element key each node keeps in pluginData, and only properties the HTML changed since the
+ * last render are patched, so designers' tweaks on untouched layers survive
+ */
+
+import type { NodeChange, UpdateChangeSummary } from '../shared/types';
+import { copyElementData, getNodeKey, getRenderedSnapshot, setRenderedSnapshot, type RenderedSnapshot } from './plugin-data';
+
+// Container properties, copied before the children so they lay out in the new parent
+const CONTAINER_PROPERTIES = [
+  'layoutMode', 'layoutWrap',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'itemSpacing', 'counterAxisSpacing', 'primaryAxisAlignItems', 'counterAxisAlignItems',
+  'clipsContent',
+] as const;
+
+// Paint, stroke and effect properties shared by frames, rectangles and text
+const VISUAL_PROPERTIES = [
+  'fills', 'strokes', 'strokeAlign', 'dashPattern',
+  'strokeTopWeight', 'strokeRightWeight', 'strokeBottomWeight', 'strokeLeftWeight',
+  'topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius',
+  'effects', 'opacity', 'visible',
+] as const;
+
+// Own sizing, copied after the children once the node's content is final
+const SIZING_PROPERTIES = [
+  'primaryAxisSizingMode', 'counterAxisSizingMode',
+  'minWidth', 'maxWidth', 'minHeight', 'maxHeight',
+] as const;
+
+// How the node sits in its parent's auto layout (or absolutely inside it)
+const CHILD_LAYOUT_PROPERTIES = [
+  'layoutPositioning', 'layoutAlign', 'layoutGrow', 'layoutSizingHorizontal', 'layoutSizingVertical',
+  'constraints', 'rotation', 'x', 'y',
+] as const;
+
+// Text properties set on the whole node after its characters and ranges
+const TEXT_PROPERTIES = [
+  'textAlignHorizontal', 'textAlignVertical', 'paragraphSpacing', 'textTruncation', 'maxLines',
+] as const;
+
+const TRACKED_PROPERTIES: readonly string[] = [
+  ...CONTAINER_PROPERTIES, ...VISUAL_PROPERTIES, ...SIZING_PROPERTIES,
+  ...CHILD_LAYOUT_PROPERTIES, ...TEXT_PROPERTIES, 'textAutoResize',
+];
+
+// Range styles copied segment by segment
+const TEXT_SEGMENT_FIELDS = [
+  'fontName', 'fontSize', 'fills', 'textDecoration', 'letterSpacing', 'lineHeight', 'textCase', 'hyperlink',
+] as const;
+
+// Numeric fields the renderer binds to variables
+const BOUND_NUMBER_FIELDS: VariableBindableNodeField[] = [
+  'itemSpacing', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius',
+];
+
+// Node types that are updated property by property; anything else is replaced
+const SYNCED_TYPES = ['FRAME', 'COMPONENT', 'TEXT', 'RECTANGLE', 'INSTANCE'];
+
+type ReactiveNode = SceneNode & ReactionMixin;
+type NodeRecord = Record<string, unknown>;
+
+// State of one sync
+interface SyncContext {
+  // Rendered node ID -> existing node ID it was copied onto
+  nodeIds: Map<string, string>;
+  // Rendered nodes with prototype reactions, re-pointed at the existing nodes at the end
+  reactions: [target: ReactiveNode, source: ReactiveNode][];
+  // Rendered nodes to drop once their reactions have been read
+  discarded: SceneNode[];
+  changes: NodeChange[];
+  unchanged: number;
+  // Element keys more than one layer carries (a designer duplicated a generated layer):
+  // the first match in a parent is reconciled, and no layer with such a key is removed
+  duplicateKeys: Set<string>;
+}
+
+// One node pair: what the target was last rendered with and what it is rendered with now
+interface Patch {
+  target: SceneNode;
+  source: SceneNode;
+  previous: RenderedSnapshot;
+  next: RenderedSnapshot;
+  changed: string[];
+}
+
+// Auto-layout children get their position from the layout, so x and y aren't theirs to patch
+function isFlowChild(node: SceneNode): boolean {
+  const parent = node.parent;
+  const inAutoLayout = !!parent && 'layoutMode' in parent && parent.layoutMode !== 'NONE';
+  return inAutoLayout && !('layoutPositioning' in node && node.layoutPositioning === 'ABSOLUTE');
+}
+
+// Whether the node's size is set rather than derived from its content or parent
+function hasFixedSize(node: SceneNode): boolean {
+  if (node.type === 'TEXT') return node.textAutoResize !== 'WIDTH_AND_HEIGHT';
+  if ('layoutSizingHorizontal' in node && 'layoutMode' in node && node.layoutMode !== 'NONE') {
+    return node.layoutSizingHorizontal === 'FIXED' || node.layoutSizingVertical === 'FIXED';
+  }
+  return 'resize' in node;
+}
+
+// Patched properties of a node as JSON, compared against the snapshot of the last render
+function takeSnapshot(node: SceneNode): RenderedSnapshot {
+  const snapshot: RenderedSnapshot = {};
+  const flowChild = isFlowChild(node);
+  for (const property of TRACKED_PROPERTIES) {
+    if (!(property in node) || (flowChild && (property === 'x' || property === 'y'))) continue;
+    const value = (node as unknown as NodeRecord)[property];
+    if (typeof value !== 'symbol') {
+      snapshot[property] = JSON.stringify(value);
+    }
+  }
+  if (hasFixedSize(node)) {
+    snapshot.size = JSON.stringify([node.width, node.height]);
+  }
+  if (node.type === 'TEXT') {
+    snapshot.characters = JSON.stringify(node.characters);
+    snapshot.segments = JSON.stringify(node.getStyledTextSegments([...TEXT_SEGMENT_FIELDS]));
+  }
+  if ('boundVariables' in node && node.boundVariables) {
+    const bindings = node.boundVariables as Record<string, VariableAlias | undefined>;
+    snapshot.boundVariables = JSON.stringify(BOUND_NUMBER_FIELDS.map(field => bindings[field]?.id ?? null));
+  }
+  if ('explicitVariableModes' in node) {
+    snapshot.explicitVariableModes = JSON.stringify(node.explicitVariableModes);
+  }
+  return snapshot;
+}
+
+// Store the rendered state of a node and its subtree for the next update
+export function recordRendering(node: SceneNode): void {
+  setRenderedSnapshot(node, takeSnapshot(node));
+  if ('children' in node && node.type !== 'INSTANCE') {
+    for (const child of node.children) {
+      recordRendering(child);
+    }
+  }
+}
+
+function hasChanged(patch: Patch, property: string): boolean {
+  return patch.next[property] !== patch.previous[property];
+}
+
+// Copy one property the HTML changed; `force` compares with the current value instead
+// (for sizing a resize just overwrote). Mixed values and properties the node rejects in
+// its context (e.g. auto-layout sizing outside auto layout) are skipped
+function assign(patch: Patch, property: string, force = false): void {
+  const { target, source } = patch;
+  if (!(property in source) || !(property in target)) return;
+  const value = (source as unknown as NodeRecord)[property];
+  if (typeof value === 'symbol') return;
+  const current = (target as unknown as NodeRecord)[property];
+  if (force ? JSON.stringify(value) === JSON.stringify(current) : !hasChanged(patch, property)) return;
+  try {
+    (target as unknown as NodeRecord)[property] = value;
+    patch.changed.push(property);
+  } catch {
+    // Not applicable in the node's current context
+  }
+}
+
+function assignAll(patch: Patch, properties: readonly string[], force = false): void {
+  for (const property of properties) {
+    assign(patch, property, force);
+  }
+}
+
+// Resize to the rendered size when the HTML changed it; returns whether the node was resized
+function syncSize(patch: Patch): boolean {
+  const { target, source } = patch;
+  if (!patch.next.size || !hasChanged(patch, 'size') || !('resize' in target)) return false;
+  try {
+    target.resize(Math.max(source.width, 0.01), Math.max(source.height, 0.01));
+    patch.changed.push('size');
+    return true;
+  } catch {
+    // Size is driven by auto layout
+    return false;
+  }
+}
+
+// Re-bind numeric variables (padding, gap, radii) to what the rendered node uses
+async function syncBoundVariables(patch: Patch): Promise<void> {
+  const { target, source } = patch;
+  if (!hasChanged(patch, 'boundVariables') || !('setBoundVariable' in target)) return;
+  const sourceBindings = (source.boundVariables ?? {}) as Record<string, VariableAlias | undefined>;
+  const targetBindings = (target.boundVariables ?? {}) as Record<string, VariableAlias | undefined>;
+  for (const field of BOUND_NUMBER_FIELDS) {
+    const binding = sourceBindings[field];
+    if (binding?.id === targetBindings[field]?.id) continue;
+    try {
+      const variable = binding ? await figma.variables.getVariableByIdAsync(binding.id) : null;
+      target.setBoundVariable(field, variable);
+      patch.changed.push(`${field} variable`);
+    } catch {
+      // Field not bindable on this node
+    }
+  }
+}
+
+// Switch the variable mode of a [data-theme] subtree
+function syncVariableModes(patch: Patch): void {
+  const { target, source } = patch;
+  if (!hasChanged(patch, 'explicitVariableModes')) return;
+  if (!('explicitVariableModes' in source) || !('setExplicitVariableModeForCollection' in target)) return;
+  for (const [collectionId, modeId] of Object.entries(source.explicitVariableModes)) {
+    if (target.explicitVariableModes[collectionId] !== modeId) {
+      target.setExplicitVariableModeForCollection(collectionId, modeId);
+      patch.changed.push('variable mode');
+    }
+  }
+}
+
+// Copy characters and styled ranges of a text node
+async function syncText(patch: Patch, target: TextNode, source: TextNode): Promise<void> {
+  if (hasChanged(patch, 'characters') || hasChanged(patch, 'segments')) {
+    // Changing characters needs the fonts the node currently uses; the new ones come from prepareFonts
+    const currentFonts = target.characters.length > 0
+      ? target.getRangeAllFontNames(0, target.characters.length)
+      : [target.fontName as FontName];
+    await Promise.all(currentFonts.map(font => figma.loadFontAsync(font)));
+
+    target.characters = source.characters;
+    for (const segment of source.getStyledTextSegments([...TEXT_SEGMENT_FIELDS])) {
+      const { start, end } = segment;
+      target.setRangeFontName(start, end, segment.fontName);
+      target.setRangeFontSize(start, end, segment.fontSize);
+      target.setRangeFills(start, end, segment.fills);
+      target.setRangeTextDecoration(start, end, segment.textDecoration);
+      target.setRangeLetterSpacing(start, end, segment.letterSpacing);
+      target.setRangeLineHeight(start, end, segment.lineHeight);
+      target.setRangeTextCase(start, end, segment.textCase);
+      target.setRangeHyperlink(start, end, segment.hyperlink);
+    }
+    patch.changed.push('characters');
+  }
+
+  assignAll(patch, TEXT_PROPERTIES);
+  // Resizing fixes the text box, so the auto-resize mode is set again afterwards
+  const resized = syncSize(patch);
+  assign(patch, 'textAutoResize', resized);
+}
+
+// Whether an existing node can take over a rendered node's properties
+function isCompatible(target: SceneNode, source: SceneNode): boolean {
+  if (!SYNCED_TYPES.includes(source.type)) return false;
+  if (target.type === source.type) return true;
+  // A root converted to a component still renders as a frame
+  return target.type === 'COMPONENT' && source.type === 'FRAME';
+}
+
+function recordChange(context: SyncContext, change: NodeChange['change'], node: SceneNode, properties?: string[]): void {
+  const entry: NodeChange = { change, nodeId: node.id, name: node.name };
+  const key = getNodeKey(node);
+  if (key) entry.key = key;
+  if (properties) entry.properties = properties;
+  context.changes.push(entry);
+}
+
+// Record a rendered node (and its subtree) that moves into the existing tree as is
+function adoptNode(node: SceneNode, context: SyncContext): void {
+  context.nodeIds.set(node.id, node.id);
+  if ('reactions' in node && node.reactions.length > 0) {
+    context.reactions.push([node, node]);
+  }
+  setRenderedSnapshot(node, takeSnapshot(node));
+  if ('children' in node && node.type !== 'INSTANCE') {
+    for (const child of node.children) {
+      adoptNode(child, context);
+    }
+  }
+}
+
+// Variant components of a state instance's component set, by name
+function variantsByName(componentSet: ComponentSetNode): Map<string, ComponentNode> {
+  return new Map(componentSet.children.map(child => [child.name, child as ComponentNode]));
+}
+
+// Update the component set behind a state instance from the rendered one,
+// then drop the rendered set; returns false when the instances don't line up
+async function syncInstance(target: InstanceNode, source: InstanceNode, context: SyncContext): Promise<boolean> {
+  const targetMain = await target.getMainComponentAsync();
+  const sourceMain = await source.getMainComponentAsync();
+  const targetSet = targetMain?.parent;
+  const sourceSet = sourceMain?.parent;
+  if (!targetMain || !sourceMain || targetSet?.type !== 'COMPONENT_SET' || sourceSet?.type !== 'COMPONENT_SET') {
+    return false;
+  }
+  if (targetMain.name !== sourceMain.name) return false;
+
+  const targetVariants = variantsByName(targetSet);
+  for (const [name, sourceVariant] of variantsByName(sourceSet)) {
+    const targetVariant = targetVariants.get(name);
+    if (targetVariant) {
+      await syncNode(targetVariant, sourceVariant, context);
+      targetVariant.x = sourceVariant.x;
+      targetVariant.y = sourceVariant.y;
+      targetVariants.delete(name);
+    } else {
+      targetSet.appendChild(sourceVariant);
+      adoptNode(sourceVariant, context);
+      recordChange(context, 'added', sourceVariant);
+    }
+  }
+  // States the stylesheet no longer has
+  for (const variant of targetVariants.values()) {
+    recordChange(context, 'removed', variant);
+    variant.remove();
+  }
+  targetSet.resizeWithoutConstraints(sourceSet.width, sourceSet.height);
+  context.discarded.push(sourceSet);
+  return true;
+}
+
+// Patch a rendered node onto an existing node of a compatible type, then reconcile its children
+// Returns the node that now stands for the element (the rendered one when it had to be replaced)
+async function syncNode(target: SceneNode, source: SceneNode, context: SyncContext, isRoot = false): Promise<SceneNode> {
+  const patch: Patch = {
+    target,
+    source,
+    previous: getRenderedSnapshot(target) ?? takeSnapshot(target),
+    next: takeSnapshot(source),
+    changed: [],
+  };
+
+  if (target.type === 'INSTANCE' && source.type === 'INSTANCE' && !(await syncInstance(target, source, context))) {
+    recordChange(context, 'removed', target);
+    target.remove();
+    adoptNode(source, context);
+    recordChange(context, 'added', source);
+    return source;
+  }
+
+  context.nodeIds.set(source.id, target.id);
+  if ('reactions' in source && source.reactions.length > 0 && 'reactions' in target) {
+    context.reactions.push([target, source]);
+  }
+
+  let resized = false;
+  if (target.type === 'TEXT' && source.type === 'TEXT') {
+    assignAll(patch, VISUAL_PROPERTIES);
+    await syncText(patch, target, source);
+  } else if (target.type !== 'INSTANCE') {
+    // An instance's content lives in its component set, updated above
+    assignAll(patch, CONTAINER_PROPERTIES);
+    assignAll(patch, VISUAL_PROPERTIES);
+    syncVariableModes(patch);
+    await syncBoundVariables(patch);
+    if ('children' in target && 'children' in source) {
+      await syncChildren(target as FrameNode, source as FrameNode, context);
+    }
+    resized = syncSize(patch);
+    assignAll(patch, SIZING_PROPERTIES, resized);
+  }
+
+  // The root keeps its own place on the canvas
+  if (!isRoot) {
+    assignAll(patch, CHILD_LAYOUT_PROPERTIES, resized);
+  }
+
+  setRenderedSnapshot(target, patch.next);
+  if (!isRoot) {
+    copyElementData(target, source);
+  }
+  if (patch.changed.length > 0) {
+    recordChange(context, 'modified', target, patch.changed);
+  } else {
+    context.unchanged++;
+  }
+  return target;
+}
+
+// Match keys for a list of siblings: the element key, or type, name and position for
+// layers without one (helper layers such as spacers)
+function siblingKeys(nodes: readonly SceneNode[]): [string, SceneNode][] {
+  const counts = new Map<string, number>();
+  return nodes.map(node => {
+    const key = getNodeKey(node);
+    if (key) return [key, node];
+    const base = `${node.type}:${node.name}`;
+    const nth = (counts.get(base) ?? 0) + 1;
+    counts.set(base, nth);
+    return [`${base}#${nth}`, node];
+  });
+}
+
+// Put the children in their rendered order; layers a designer added keep following
+// the generated layer they were placed after
+function orderChildren(parent: FrameNode | ComponentNode, rendered: SceneNode[], original: SceneNode[]): void {
+  const renderedNodes = new Set(rendered);
+  const leading: SceneNode[] = [];
+  const following = new Map<SceneNode, SceneNode[]>();
+  let anchor: SceneNode | null = null;
+  for (const node of original) {
+    if (node.removed) continue;
+    if (renderedNodes.has(node)) {
+      anchor = node;
+    } else if (anchor) {
+      following.set(anchor, [...(following.get(anchor) ?? []), node]);
+    } else {
+      leading.push(node);
+    }
+  }
+
+  const order = [...leading, ...rendered.flatMap(node => [node, ...(following.get(node) ?? [])])];
+  const current = parent.children;
+  if (order.length === current.length && order.every((node, index) => current[index] === node)) return;
+  for (const node of order) {
+    parent.appendChild(node);
+  }
+}
+
+// Element keys that appear on several layers of the tree (a duplicated layer copies its
+// pluginData, so copies would otherwise be removed as stale elements wherever they don't match)
+function collectDuplicateKeys(root: SceneNode): Set<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  const visit = (node: SceneNode): void => {
+    const key = getNodeKey(node);
+    if (key && seen.has(key)) duplicates.add(key);
+    if (key) seen.add(key);
+    if ('children' in node && node.type !== 'INSTANCE') {
+      node.children.forEach(visit);
+    }
+  };
+  if ('children' in root) {
+    root.children.forEach(visit);
+  }
+  return duplicates;
+}
+
+// Reconcile children by key: matches are patched, new elements are added, generated layers
+// whose element is gone are removed, and layers a designer added or duplicated are left alone
+async function syncChildren(target: FrameNode | ComponentNode, source: FrameNode, context: SyncContext): Promise<void> {
+  const original = [...target.children];
+  const targetsByKey = new Map<string, SceneNode>();
+  for (const [key, node] of siblingKeys(original)) {
+    if (!targetsByKey.has(key)) targetsByKey.set(key, node);
+  }
+
+  const rendered: SceneNode[] = [];
+  const matched: SceneNode[] = [];
+  for (const [key, sourceChild] of siblingKeys(source.children)) {
+    const targetChild = targetsByKey.get(key);
+    if (targetChild && isCompatible(targetChild, sourceChild)) {
+      targetsByKey.delete(key);
+      const node = await syncNode(targetChild, sourceChild, context);
+      rendered.push(node);
+      if (node === targetChild) matched.push(node);
+    } else {
+      adoptNode(sourceChild, context);
+      recordChange(context, 'added', sourceChild);
+      rendered.push(sourceChild);
+    }
+  }
+
+  for (const node of targetsByKey.values()) {
+    const key = getNodeKey(node);
+    if (key && context.duplicateKeys.has(key)) continue;
+    if (getRenderedSnapshot(node) || key) {
+      recordChange(context, 'removed', node);
+      node.remove();
+    }
+  }
+
+  // Matched layers whose order relative to each other changed
+  const originalOrder = original.filter(node => matched.includes(node));
+  matched.forEach((node, index) => {
+    if (originalOrder[index] !== node) recordChange(context, 'moved', node);
+  });
+
+  orderChildren(target, rendered, original);
+}
+
+// Point the rendered prototype reactions at the existing nodes they were copied onto
+// (existing nodes without rendered reactions keep the ones a designer added)
+async function syncReactions(context: SyncContext): Promise<void> {
+  for (const [target, source] of context.reactions) {
+    const reactions = source.reactions.map(reaction => ({
+      ...reaction,
+      actions: reaction.actions?.map(action => {
+        if (action.type !== 'NODE' || !action.destinationId) return action;
+        return { ...action, destinationId: context.nodeIds.get(action.destinationId) ?? action.destinationId };
+      }),
+    }));
+    if (JSON.stringify(reactions) === JSON.stringify(target.reactions)) continue;
+    try {
+      await target.setReactionsAsync(reactions);
+    } catch (error) {
+      console.warn(`Could not update prototype reactions of "${target.name}":`, error);
+    }
+  }
+}
+
+// Update `target` (a frame or component built from HTML) to match the freshly rendered `source`
+// root frame; `source` is emptied of every node that moved into the target and can be removed
+export async function syncNodeTree(target: FrameNode | ComponentNode, source: FrameNode): Promise<UpdateChangeSummary> {
+  const context: SyncContext = {
+    nodeIds: new Map(),
+    reactions: [],
+    discarded: [],
+    changes: [],
+    unchanged: 0,
+    duplicateKeys: collectDuplicateKeys(target),
+  };
+  await syncNode(target, source, context, true);
+  await syncReactions(context);
+  for (const node of context.discarded) {
+    node.remove();
+  }
+
+  const count = (change: NodeChange['change']) => context.changes.filter(entry => entry.change === change).length;
+  return {
+    added: count('added'),
+    removed: count('removed'),
+    modified: count('modified'),
+    moved: count('moved'),
+    unchanged: context.unchanged,
+    nodes: context.changes,
+  };
+}
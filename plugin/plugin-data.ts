@@ -0,0 +1,87 @@
+/**
+ * Plugin data on generated nodes
+ * Ties Figma nodes to the HTML elements they were rendered from, for in-place updates,
+ * round trips and debugging in later sessions
+ */
+
+import type { ParsedElement, RenderSource } from '../shared/types';
+
+// pluginData entries written by this plugin
+const KEY_FIELD = 'key';
+const RENDERED_FIELD = 'rendered';
+// Element fields, on every node rendered from an element
+const PATH_FIELD = 'path';
+const TAG_FIELD = 'tag';
+const ID_FIELD = 'id';
+const CLASSES_FIELD = 'classes';
+const DATA_NAME_FIELD = 'dataName';
+const CSS_FIELD = 'css';
+// Root fields
+const SOURCE_HTML_FIELD = 'sourceHtml';
+const PARSER_VERSION_FIELD = 'parserVersion';
+
+// Patched properties of a node as last rendered (JSON value per property)
+export type RenderedSnapshot = Record<string, string>;
+
+const ELEMENT_FIELDS = [KEY_FIELD, PATH_FIELD, TAG_FIELD, ID_FIELD, CLASSES_FIELD, DATA_NAME_FIELD, CSS_FIELD];
+
+// Record the element a node was rendered from: key, path, tag, id, classes, data-name and declared CSS
+export function setElementData(node: BaseNode, element: ParsedElement): void {
+  const { attributes } = element;
+  const fields: [string, string | undefined][] = [
+    [KEY_FIELD, element.key],
+    [PATH_FIELD, element.path],
+    [TAG_FIELD, element.tagName],
+    [ID_FIELD, attributes.id],
+    [CLASSES_FIELD, attributes.class?.trim().split(/\s+/).join(' ')],
+    [DATA_NAME_FIELD, attributes['data-name']],
+    [CSS_FIELD, element.declaredStyle],
+  ];
+  for (const [field, value] of fields) {
+    if (value) node.setPluginData(field, value);
+  }
+}
+
+// Carry the element fields of a re-rendered node over to the node it updated
+export function copyElementData(target: BaseNode, source: BaseNode): void {
+  for (const field of ELEMENT_FIELDS) {
+    target.setPluginData(field, source.getPluginData(field));
+  }
+}
+
+// Record the full HTML and parser version a root node was rendered from
+export function setRootSource(node: BaseNode, source: RenderSource): void {
+  node.setPluginData(SOURCE_HTML_FIELD, source.html);
+  node.setPluginData(PARSER_VERSION_FIELD, source.parserVersion);
+}
+
+// Path, id and data-name of the element a node was rendered from (null for other layers)
+export function getElementIdentity(node: BaseNode): { path: string; id?: string; name?: string } | null {
+  const path = node.getPluginData(PATH_FIELD);
+  if (!path) return null;
+  return {
+    path,
+    id: node.getPluginData(ID_FIELD) || undefined,
+    name: node.getPluginData(DATA_NAME_FIELD) || undefined,
+  };
+}
+
+// Element key of a node rendered from HTML (undefined for helper and designer-added layers)
+export function getNodeKey(node: BaseNode): string | undefined {
+  return node.getPluginData(KEY_FIELD) || undefined;
+}
+
+export function setRenderedSnapshot(node: BaseNode, snapshot: RenderedSnapshot): void {
+  node.setPluginData(RENDERED_FIELD, JSON.stringify(snapshot));
+}
+
+// What the node looked like when it was last rendered; null for nodes the plugin didn't render
+export function getRenderedSnapshot(node: BaseNode): RenderedSnapshot | null {
+  const data = node.getPluginData(RENDERED_FIELD);
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as RenderedSnapshot;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Prototype links between screens
+ * Turns the links the MCP server resolved between screens (anchors, data-navigate,
+ * data-overlay) into click reactions and marks the first screen as a flow starting point
+ */
+
+import type { PrototypeLink } from '../shared/types';
+
+type ReactiveNode = SceneNode & ReactionMixin;
+
+const NAVIGATE_TRANSITION: Transition = {
+  type: 'DISSOLVE',
+  easing: { type: 'EASE_OUT' },
+  duration: 0.2,
+};
+
+// Linked nodes created since the last reset (wired by code.ts once the screens exist)
+let pendingLinks: { node: SceneNode; link: PrototypeLink }[] = [];
+
+export function resetPrototypeLinks(): void {
+  pendingLinks = [];
+}
+
+export function registerPrototypeLink(node: SceneNode, link: PrototypeLink): void {
+  pendingLinks.push({ node, link });
+}
+
+function linkAction(link: PrototypeLink, screens: SceneNode[]): Action | null {
+  if (link.action === 'back') return { type: 'BACK' };
+  if (link.action === 'close') return { type: 'CLOSE' };
+  const destination = link.screen === undefined ? undefined : screens[link.screen];
+  if (!destination) return null;
+  return {
+    type: 'NODE',
+    destinationId: destination.id,
+    navigation: link.action === 'overlay' ? 'OVERLAY' : 'NAVIGATE',
+    transition: NAVIGATE_TRANSITION,
+  };
+}
+
+// Add an ON_CLICK reaction per registered link (after any reactions the node already has,
+// such as the state changes of an instance) and start a flow named `flowName` at the first screen.
+// Returns the number of links wired
+export async function wirePrototypeLinks(screens: SceneNode[], flowName: string): Promise<number> {
+  let wired = 0;
+  for (const { node, link } of pendingLinks) {
+    // Renderings that became state components were replaced by an instance, which has its own entry
+    if (node.removed || !('reactions' in node)) continue;
+    const action = linkAction(link, screens);
+    if (!action) continue;
+    const target = node as ReactiveNode;
+    try {
+      await target.setReactionsAsync([...target.reactions, { trigger: { type: 'ON_CLICK' }, actions: [action] }]);
+      wired++;
+    } catch (error) {
+      console.warn('Could not add a prototype link to', node.name, error);
+    }
+  }
+  pendingLinks = [];
+
+  if (wired > 0 && screens.length > 0) {
+    const page = figma.currentPage;
+    const startingPoints = page.flowStartingPoints.filter(point => point.nodeId !== screens[0].id);
+    page.flowStartingPoints = [...startingPoints, { nodeId: screens[0].id, name: flowName }];
+  }
+  return wired;
+}
@@ -0,0 +1,156 @@
+/**
+ * Interaction states
+ * Builds a component set from an element's :hover/:active/:focus/:disabled renderings,
+ * wires prototype reactions between the states and places an instance in the layout
+ */
+
+import type { InteractionStateName, ParsedElement } from '../shared/types';
+
+// Renders an element inside `parent` the way createFigmaNode would
+export type StateNodeFactory = (element: ParsedElement, parent: FrameNode | GroupNode | PageNode) => Promise<SceneNode>;
+
+type StateName = 'Default' | InteractionStateName;
+
+// Space around and between the state components inside their set
+const STATE_PADDING = 20;
+const STATE_GAP = 20;
+
+// Quick cross-fade between states, close to a CSS transition
+const STATE_TRANSITION: Transition = {
+  type: 'SMART_ANIMATE',
+  easing: { type: 'EASE_OUT' },
+  duration: 0.15,
+};
+
+// Elements that take focus when clicked rather than only while pressed
+const FOCUS_ON_CLICK_TAGS = ['input', 'textarea', 'select'];
+
+// Layout properties the instance takes over from the node it replaces
+const INSTANCE_LAYOUT_PROPERTIES = [
+  'layoutPositioning', 'layoutAlign', 'layoutGrow', 'layoutSizingHorizontal', 'layoutSizingVertical',
+] as const;
+
+// Component sets created since the last reset (placed on the page by code.ts)
+let stateComponentSets: ComponentSetNode[] = [];
+
+export function resetStateComponentSets(): void {
+  stateComponentSets = [];
+}
+
+export function getStateComponentSets(): ComponentSetNode[] {
+  return stateComponentSets;
+}
+
+// Component set name: the tag and its first class, e.g. "button.primary"
+function stateSetName(element: ParsedElement): string {
+  const [className] = (element.attributes.class ?? '').split(/\s+/).filter(Boolean);
+  return className ? `${element.tagName}.${className}` : element.tagName;
+}
+
+// Place the state components in a row and fit the set around them
+function layoutStateRow(componentSet: ComponentSetNode, components: ComponentNode[]): void {
+  let x = STATE_PADDING;
+  let maxHeight = 0;
+  for (const component of components) {
+    component.x = x;
+    component.y = STATE_PADDING;
+    x += component.width + STATE_GAP;
+    maxHeight = Math.max(maxHeight, component.height);
+  }
+  componentSet.resizeWithoutConstraints(x - STATE_GAP + STATE_PADDING, maxHeight + STATE_PADDING * 2);
+}
+
+function changeTo(trigger: Trigger['type'], destination: ComponentNode): Reaction {
+  return {
+    trigger: { type: trigger } as Trigger,
+    actions: [{
+      type: 'NODE',
+      destinationId: destination.id,
+      navigation: 'CHANGE_TO',
+      transition: STATE_TRANSITION,
+    }],
+  };
+}
+
+// Prototype reactions between the states: hover and press swap while the pointer is
+// over or down (Figma swaps back on release), text fields switch to Focused on click
+async function wireStateReactions(element: ParsedElement, components: Map<StateName, ComponentNode>): Promise<void> {
+  const hover = components.get('Hover');
+  const pressed = components.get('Pressed');
+  const focused = components.get('Focused');
+  const focusOnClick = FOCUS_ON_CLICK_TAGS.includes(element.tagName);
+
+  const defaultReactions: Reaction[] = [];
+  if (hover) defaultReactions.push(changeTo('ON_HOVER', hover));
+  if (pressed) defaultReactions.push(changeTo('ON_PRESS', pressed));
+  if (focused && focusOnClick) defaultReactions.push(changeTo('ON_CLICK', focused));
+
+  const hoverReactions: Reaction[] = [];
+  if (pressed) hoverReactions.push(changeTo('ON_PRESS', pressed));
+  if (focused && focusOnClick) hoverReactions.push(changeTo('ON_CLICK', focused));
+
+  const defaultComponent = components.get('Default');
+  if (defaultComponent && defaultReactions.length > 0) {
+    await defaultComponent.setReactionsAsync(defaultReactions);
+  }
+  if (hover && hoverReactions.length > 0) {
+    await hover.setReactionsAsync(hoverReactions);
+  }
+}
+
+// Render the element once per state as a "State=..." component set on the current page,
+// then put an instance of the Default state where the element belongs in `parent`
+export async function createStateInstance(
+  element: ParsedElement,
+  parent: FrameNode | GroupNode | PageNode,
+  render: StateNodeFactory
+): Promise<SceneNode> {
+  // The default rendering goes into the parent first so it is laid out like any other child
+  const defaultNode = await render({ ...element, states: undefined }, parent);
+  const index = parent.children.indexOf(defaultNode);
+  const layout: Record<string, unknown> = {};
+  for (const property of INSTANCE_LAYOUT_PROPERTIES) {
+    if (property in defaultNode) {
+      layout[property] = (defaultNode as FrameNode)[property];
+    }
+  }
+
+  const renderings: [StateName, SceneNode][] = [['Default', defaultNode]];
+  for (const { state, element: stateElement } of element.states ?? []) {
+    renderings.push([state, await render(stateElement, parent)]);
+  }
+
+  // Components can't live inside the layout, so every state moves to the page
+  const components = new Map<StateName, ComponentNode>();
+  for (const [state, node] of renderings) {
+    figma.currentPage.appendChild(node);
+    const component = figma.createComponentFromNode(node);
+    component.name = `State=${state}`;
+    components.set(state, component);
+  }
+
+  const componentSet = figma.combineAsVariants(Array.from(components.values()), figma.currentPage);
+  componentSet.name = stateSetName(element);
+  layoutStateRow(componentSet, Array.from(components.values()));
+  stateComponentSets.push(componentSet);
+
+  try {
+    await wireStateReactions(element, components);
+  } catch (error) {
+    console.warn('Could not add prototype reactions to', componentSet.name, error);
+  }
+
+  const instance = components.get('Default')!.createInstance();
+  parent.insertChild(Math.max(index, 0), instance);
+
+  // Sizing only applies inside auto-layout parents; ignore what the parent rejects
+  for (const property of INSTANCE_LAYOUT_PROPERTIES) {
+    if (!(property in layout)) continue;
+    try {
+      (instance as unknown as Record<string, unknown>)[property] = layout[property];
+    } catch {
+      // Not an auto-layout child
+    }
+  }
+  return instance;
+}
@@ -0,0 +1,81 @@
+/**
+ * Rich inline text
+ * Applies styled runs (bold words, links, inline code) as ranges of one TextNode
+ */
+
+import type { ParsedStyle, TextRun } from '../shared/types';
+import { getFont, isItalicStyle } from './fonts';
+
+// Helper to apply text-transform to text content
+export function applyTextTransform(text: string, transform: ParsedStyle['textTransform']): string {
+  if (!transform || transform === 'none') return text;
+  switch (transform) {
+    case 'uppercase':
+      return text.toUpperCase();
+    case 'lowercase':
+      return text.toLowerCase();
+    case 'capitalize':
+      return text.replace(/\b\w/g, char => char.toUpperCase());
+    default:
+      return text;
+  }
+}
+
+// Hrefs that work as URL hyperlinks outside the page (not #anchors, relative paths or javascript:)
+const HYPERLINK_PATTERN = /^(?:https?:\/\/|mailto:|tel:)/i;
+
+// Replace the text node's characters with the runs and style each run's range
+// Must be called after the node's base font is set; run fonts come from prepareFonts
+export function applyTextRuns(textNode: TextNode, runs: TextRun[], baseStyles: ParsedStyle): void {
+  const texts = runs.map(run => applyTextTransform(run.text, run.styles.textTransform ?? baseStyles.textTransform));
+  textNode.characters = texts.join('');
+
+  let start = 0;
+  for (let i = 0; i < runs.length; i++) {
+    const { styles, href } = runs[i];
+    const end = start + texts[i].length;
+    if (end === start) continue;
+
+    // Only touch the font when the run says something about it, so tag defaults (bold headings) stay
+    if (styles.fontFamily !== undefined || styles.fontWeight !== undefined || styles.fontStyle !== undefined) {
+      const fontName = getFont(
+        styles.fontFamily ?? baseStyles.fontFamily,
+        styles.fontWeight ?? baseStyles.fontWeight,
+        isItalicStyle(styles.fontStyle ?? baseStyles.fontStyle)
+      );
+      textNode.setRangeFontName(start, end, fontName);
+    }
+
+    if (styles.fontSize !== undefined) {
+      textNode.setRangeFontSize(start, end, styles.fontSize);
+    }
+
+    if (styles.color) {
+      textNode.setRangeFills(start, end, [{
+        type: 'SOLID',
+        color: { r: styles.color.r, g: styles.color.g, b: styles.color.b },
+        opacity: styles.color.a,
+      }]);
+    }
+
+    if (styles.textDecoration !== undefined) {
+      const decoration = styles.textDecoration === 'underline' ? 'UNDERLINE' :
+        styles.textDecoration === 'line-through' ? 'STRIKETHROUGH' : 'NONE';
+      textNode.setRangeTextDecoration(start, end, decoration);
+    }
+
+    if (styles.letterSpacing !== undefined) {
+      textNode.setRangeLetterSpacing(start, end, { value: styles.letterSpacing, unit: 'PIXELS' });
+    }
+
+    if (href && HYPERLINK_PATTERN.test(href.trim())) {
+      try {
+        textNode.setRangeHyperlink(start, end, { type: 'URL', value: href.trim() });
+      } catch (error) {
+        console.warn(`Could not link "${texts[i]}" to ${href}:`, error);
+      }
+    }
+
+    start = end;
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Figma Variables for design tokens
+ * Creates a variable collection from CSS custom properties and binds tokens to nodes
+ */
+
+import type { DesignTokens, DesignToken, TokenBindings, RGBA } from '../shared/types';
+
+const COLLECTION_NAME = 'AI Designer Tokens';
+
+// Variables available while a component is being created
+interface ActiveTokens {
+  collection: VariableCollection;
+  // Mode name -> Figma mode ID
+  modeIds: Map<string, string>;
+  variables: Map<string, Variable>;
+  // Figma mode ID -> token name -> value the HTML was rendered with
+  values: Map<string, Map<string, RGBA | number>>;
+  defaultModeId: string;
+}
+
+let activeTokens: ActiveTokens | null = null;
+
+// Follow aliases to the concrete value of a token in a mode (falls back to the default mode)
+function resolveTokenValue(
+  tokens: Map<string, DesignToken>,
+  name: string,
+  mode: string,
+  defaultMode: string,
+  seen: Set<string> = new Set()
+): RGBA | number | null {
+  const token = tokens.get(name);
+  if (!token || seen.has(name)) return null;
+  seen.add(name);
+
+  const value = token.values[mode] ?? token.values[defaultMode];
+  if (value === undefined) return null;
+  if (typeof value === 'object' && 'alias' in value) {
+    return resolveTokenValue(tokens, value.alias, mode, defaultMode, seen);
+  }
+  return value;
+}
+
+async function findOrCreateCollection(defaultMode: string): Promise<VariableCollection> {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const existing = collections.find(collection => collection.name === COLLECTION_NAME);
+  if (existing) return existing;
+
+  const collection = figma.variables.createVariableCollection(COLLECTION_NAME);
+  collection.renameMode(collection.modes[0].modeId, defaultMode);
+  return collection;
+}
+
+// Create or reuse the token collection, its modes and variables
+// Values are only written for new variables and new modes, so tokens a designer
+// has already retuned in Figma keep their values
+export async function prepareVariables(designTokens?: DesignTokens): Promise<void> {
+  activeTokens = null;
+  if (!designTokens || designTokens.tokens.length === 0) return;
+
+  const defaultMode = designTokens.modes[0];
+  const collection = await findOrCreateCollection(defaultMode);
+
+  const modeIds = new Map<string, string>();
+  const newModeIds = new Set<string>();
+  for (const mode of designTokens.modes) {
+    const existing = collection.modes.find(collectionMode => collectionMode.name === mode);
+    if (existing) {
+      modeIds.set(mode, existing.modeId);
+      continue;
+    }
+    try {
+      const modeId = collection.addMode(mode);
+      modeIds.set(mode, modeId);
+      newModeIds.add(modeId);
+    } catch (error) {
+      // The plan's mode limit was reached; this mode renders with the default values
+      console.warn(`Could not add variable mode "${mode}":`, error);
+    }
+  }
+  const defaultModeId = modeIds.get(defaultMode) ?? collection.defaultModeId;
+
+  const localVariables = await figma.variables.getLocalVariablesAsync();
+  const existingVariables = new Map(
+    localVariables
+      .filter(variable => variable.variableCollectionId === collection.id)
+      .map(variable => [variable.name, variable])
+  );
+
+  // Create all variables first so aliases can point at any of them
+  const variables = new Map<string, Variable>();
+  const newVariables = new Set<string>();
+  for (const token of designTokens.tokens) {
+    const existing = existingVariables.get(token.name);
+    if (existing) {
+      if (existing.resolvedType === token.type) variables.set(token.name, existing);
+      continue;
+    }
+    try {
+      variables.set(token.name, figma.variables.createVariable(token.name, collection, token.type));
+      newVariables.add(token.name);
+    } catch (error) {
+      console.warn(`Could not create variable "${token.name}":`, error);
+    }
+  }
+
+  for (const token of designTokens.tokens) {
+    const variable = variables.get(token.name);
+    if (!variable) continue;
+
+    for (const [mode, modeId] of modeIds) {
+      if (!newVariables.has(token.name) && !newModeIds.has(modeId)) continue;
+      const value = token.values[mode] ?? token.values[defaultMode];
+      if (value === undefined) continue;
+
+      if (typeof value === 'object' && 'alias' in value) {
+        const target = variables.get(value.alias);
+        if (target) variable.setValueForMode(modeId, figma.variables.createVariableAlias(target));
+      } else {
+        variable.setValueForMode(modeId, value);
+      }
+    }
+  }
+
+  const tokensByName = new Map(designTokens.tokens.map(token => [token.name, token]));
+  const values = new Map<string, Map<string, RGBA | number>>();
+  for (const [mode, modeId] of modeIds) {
+    const modeValues = new Map<string, RGBA | number>();
+    for (const token of designTokens.tokens) {
+      const value = resolveTokenValue(tokensByName, token.name, mode, defaultMode);
+      if (value !== null) modeValues.set(token.name, value);
+    }
+    values.set(modeId, modeValues);
+  }
+
+  activeTokens = { collection, modeIds, variables, values, defaultModeId };
+}
+
+export function clearVariables(): void {
+  activeTokens = null;
+}
+
+// Switch a frame (and its subtree) to the variable mode of a [data-theme] element
+export function applyTokenMode(frame: FrameNode, mode?: string): void {
+  if (!activeTokens || !mode) return;
+  const modeId = activeTokens.modeIds.get(mode);
+  if (!modeId) return;
+  try {
+    frame.setExplicitVariableModeForCollection(activeTokens.collection, modeId);
+  } catch (error) {
+    console.warn(`Could not set variable mode "${mode}":`, error);
+  }
+}
+
+// Look up a token's variable and the value the node was rendered with in its mode
+function getTokenVariable(node: SceneNode, token: string): { variable: Variable; value: RGBA | number } | null {
+  if (!activeTokens) return null;
+  const variable = activeTokens.variables.get(token);
+  if (!variable) return null;
+
+  const modeId = node.resolvedVariableModes[activeTokens.collection.id] ?? activeTokens.defaultModeId;
+  const value = activeTokens.values.get(modeId)?.get(token) ?? activeTokens.values.get(activeTokens.defaultModeId)?.get(token);
+  if (value === undefined) return null;
+  return { variable, value };
+}
+
+function colorsMatch(paint: SolidPaint, color: RGBA): boolean {
+  const tolerance = 1 / 255;
+  return Math.abs(paint.color.r - color.r) <= tolerance &&
+    Math.abs(paint.color.g - color.g) <= tolerance &&
+    Math.abs(paint.color.b - color.b) <= tolerance &&
+    Math.abs((paint.opacity ?? 1) - color.a) <= tolerance;
+}
+
+// Bind the first solid paint to a color token if it still shows the token's value
+function bindPaints(node: SceneNode, paints: readonly Paint[], token: string | undefined): Paint[] | null {
+  if (!token) return null;
+  const binding = getTokenVariable(node, token);
+  if (!binding || typeof binding.value === 'number') return null;
+
+  const index = paints.findIndex(paint => paint.type === 'SOLID');
+  if (index === -1) return null;
+  const paint = paints[index] as SolidPaint;
+  if (!colorsMatch(paint, binding.value)) return null;
+
+  const bound = [...paints];
+  bound[index] = figma.variables.setBoundVariableForPaint(paint, 'color', binding.variable);
+  return bound;
+}
+
+// Bind a numeric field if the node still uses the token's value
+// (layout adjustments such as space-around distribution change gaps and padding)
+function bindNumber(frame: FrameNode, field: VariableBindableNodeField, current: number, token: string | undefined): void {
+  if (!token) return;
+  const binding = getTokenVariable(frame, token);
+  if (!binding || typeof binding.value !== 'number') return;
+  if (Math.abs(current - binding.value) > 0.01) return;
+  frame.setBoundVariable(field, binding.variable);
+}
+
+// Bind fills, strokes, spacing and radii of a frame to its tokens
+export function bindFrameVariables(frame: FrameNode, tokens?: TokenBindings): void {
+  if (!activeTokens || !tokens) return;
+
+  try {
+    if (frame.fills !== figma.mixed) {
+      const fills = bindPaints(frame, frame.fills, tokens.backgroundColor);
+      if (fills) frame.fills = fills;
+    }
+    const strokes = bindPaints(frame, frame.strokes, tokens.borderColor);
+    if (strokes) frame.strokes = strokes;
+
+    if (frame.layoutMode === 'GRID') {
+      bindNumber(frame, 'gridRowGap', frame.gridRowGap, tokens.rowGap);
+      bindNumber(frame, 'gridColumnGap', frame.gridColumnGap, tokens.columnGap);
+    } else if (frame.layoutMode !== 'NONE') {
+      // Rows space items by column-gap and wrapped lines by row-gap; columns the other way round
+      const isRow = frame.layoutMode === 'HORIZONTAL';
+      bindNumber(frame, 'itemSpacing', frame.itemSpacing, isRow ? tokens.columnGap : tokens.rowGap);
+      if (frame.layoutWrap === 'WRAP' && frame.counterAxisSpacing !== null) {
+        bindNumber(frame, 'counterAxisSpacing', frame.counterAxisSpacing, isRow ? tokens.rowGap : tokens.columnGap);
+      }
+    }
+
+    if (frame.layoutMode !== 'NONE') {
+      bindNumber(frame, 'paddingTop', frame.paddingTop, tokens.paddingTop);
+      bindNumber(frame, 'paddingRight', frame.paddingRight, tokens.paddingRight);
+      bindNumber(frame, 'paddingBottom', frame.paddingBottom, tokens.paddingBottom);
+      bindNumber(frame, 'paddingLeft', frame.paddingLeft, tokens.paddingLeft);
+    }
+
+    bindNumber(frame, 'topLeftRadius', frame.topLeftRadius, tokens.borderTopLeftRadius);
+    bindNumber(frame, 'topRightRadius', frame.topRightRadius, tokens.borderTopRightRadius);
+    bindNumber(frame, 'bottomRightRadius', frame.bottomRightRadius, tokens.borderBottomRightRadius);
+    bindNumber(frame, 'bottomLeftRadius', frame.bottomLeftRadius, tokens.borderBottomLeftRadius);
+  } catch (error) {
+    console.warn(`Could not bind variables to "${frame.name}":`, error);
+  }
+}
+
+// Bind the text color to its token
+export function bindTextVariables(text: TextNode, tokens?: TokenBindings): void {
+  if (!activeTokens || !tokens || text.fills === figma.mixed) return;
+
+  try {
+    const fills = bindPaints(text, text.fills, tokens.color);
+    if (fills) text.fills = fills;
+  } catch (error) {
+    console.warn(`Could not bind variables to "${text.name}":`, error);
+  }
+}
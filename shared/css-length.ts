@@ -0,0 +1,76 @@
+/**
+ * Deferred CSS lengths shared between MCP server and Figma plugin
+ * The server keeps %, vw and vh terms that need layout context; the plugin resolves them
+ */
+
+import type { CssLength, DeferredLengthField, ParsedStyle } from './types';
+
+// Viewport used for vw/vh when none is given
+export const DEFAULT_VIEWPORT = { width: 1440, height: 900 };
+
+export interface LengthResolveContext {
+  // Size % refers to (undefined when unknown)
+  percentBase?: number;
+  viewportWidth: number;
+  viewportHeight: number;
+}
+
+// Resolve a length to px, or null when it needs a percentage base that isn't known
+export function resolveCssLength(length: CssLength, context: LengthResolveContext): number | null {
+  if (!('fn' in length)) {
+    if (length.percent && context.percentBase === undefined) return null;
+    return length.px +
+      (length.percent ?? 0) * (context.percentBase ?? 0) / 100 +
+      (length.vw ?? 0) * context.viewportWidth / 100 +
+      (length.vh ?? 0) * context.viewportHeight / 100;
+  }
+
+  const values: number[] = [];
+  for (const arg of length.args) {
+    const value = resolveCssLength(arg, context);
+    if (value === null) return null;
+    values.push(value);
+  }
+
+  let result: number;
+  switch (length.fn) {
+    case 'min':
+      result = Math.min(...values);
+      break;
+    case 'max':
+      result = Math.max(...values);
+      break;
+    case 'clamp':
+      // clamp(MIN, VAL, MAX) = max(MIN, min(VAL, MAX))
+      result = Math.max(values[0], Math.min(values[1], values[2]));
+      break;
+    case 'sum':
+      result = values.reduce((sum, value) => sum + value, 0);
+      break;
+  }
+  return result * (length.scale ?? 1);
+}
+
+// Fields whose percentages refer to the parent's height (all others use its width)
+const HEIGHT_BASED_FIELDS: DeferredLengthField[] = ['height', 'minHeight', 'maxHeight', 'top', 'bottom'];
+
+// Replace deferred lengths in a style with px values for the given parent size
+// Lengths that can't be resolved (e.g. % of an unknown height) are dropped
+export function resolveStyleLengths(
+  styles: ParsedStyle,
+  parentWidth: number | undefined,
+  parentHeight: number | undefined,
+  viewport: { width: number; height: number } = DEFAULT_VIEWPORT
+): void {
+  if (!styles.lengths) return;
+
+  for (const [field, length] of Object.entries(styles.lengths) as [DeferredLengthField, CssLength][]) {
+    const value = resolveCssLength(length, {
+      percentBase: HEIGHT_BASED_FIELDS.includes(field) ? parentHeight : parentWidth,
+      viewportWidth: viewport.width,
+      viewportHeight: viewport.height,
+    });
+    if (value !== null) styles[field] = value;
+  }
+  delete styles.lengths;
+}
@@ -25,8 +25,27 @@ export interface CreateComponentMessage extends BaseMessage {
   type: 'create_component';
   payload: {
     elements: ParsedElement[];
+    root?: ParsedRootStyle;
     name?: string;
     parentId?: string;
+    designTokens?: DesignTokens;
+    viewport?: Viewport;
+    // One rendering per breakpoint (elements then holds the first one)
+    breakpoints?: ParsedBreakpoint[];
+    // Component set variants (elements then holds the first one)
+    variants?: ParsedVariant[];
+    // One root frame per screen (layout "screens")
+    screens?: ParsedScreen[];
+    // Space between side-by-side root frames
+    spacing?: number;
+    // Wrap the created nodes in a Figma Section named after the component
+    section?: boolean;
+    output?: OutputMode;
+    description?: string;
+    documentationLinks?: string[];
+    // Source of the rendering(s); variants carry their own
+    source?: RenderSource;
+    detail?: ResultDetail;
   };
 }
 
@@ -41,8 +60,14 @@ export interface ListComponentsMessage extends BaseMessage {
 export interface UpdateComponentMessage extends BaseMessage {
   type: 'update_component';
   payload: {
+    // Frame or component created from HTML, updated in place
     nodeId: string;
-    html: string;
+    elements: ParsedElement[];
+    root?: ParsedRootStyle;
+    designTokens?: DesignTokens;
+    viewport?: Viewport;
+    source?: RenderSource;
+    detail?: ResultDetail;
   };
 }
 
@@ -111,11 +136,13 @@ export interface SerializedNode {
 // HTML to Figma conversion types
 export interface ParsedStyle {
   // Layout
-  display?: 'flex' | 'inline-flex' | 'block' | 'inline' | 'inline-block' | 'none';
+  display?: 'flex' | 'inline-flex' | 'grid' | 'inline-grid' | 'block' | 'inline' | 'inline-block' | 'none';
   flexDirection?: 'row' | 'column' | 'row-reverse' | 'column-reverse';
   justifyContent?: 'flex-start' | 'flex-end' | 'center' | 'space-between' | 'space-around' | 'space-evenly';
   alignItems?: 'flex-start' | 'flex-end' | 'center' | 'stretch' | 'baseline';
   gap?: number;
+  rowGap?: number;
+  columnGap?: number;
   flexGrow?: number;
   flexShrink?: number;
   flexBasis?: number | 'auto';
@@ -182,13 +209,13 @@ export interface ParsedStyle {
   fontSize?: number;
   fontWeight?: number | 'normal' | 'bold';
   fontStyle?: 'normal' | 'italic' | 'oblique';
-  fontFamily?: string;
+  fontFamily?: string[]; // font-family fallback list in order, generic families included
   textAlign?: 'left' | 'center' | 'right' | 'justify';
   lineHeight?: number;
   letterSpacing?: number;
   textDecoration?: 'none' | 'underline' | 'line-through';
   textTransform?: 'none' | 'uppercase' | 'lowercase' | 'capitalize';
-  whiteSpace?: 'normal' | 'nowrap' | 'pre' | 'pre-wrap' | 'pre-line';
+  whiteSpace?: 'normal' | 'nowrap' | 'pre' | 'pre-wrap' | 'pre-line' | 'break-spaces';
   textOverflow?: 'clip' | 'ellipsis';
 
   // Effects
@@ -218,8 +245,78 @@ export interface ParsedStyle {
 
   // Flex wrap (for grid-like layouts)
   flexWrap?: 'nowrap' | 'wrap' | 'wrap-reverse';
+
+  // Grid container
+  gridTemplateColumns?: GridTemplate;
+  gridTemplateRows?: GridTemplate;
+  gridTemplateAreas?: string[][]; // area name per cell ('.' for unnamed cells)
+  gridAutoFlow?: 'row' | 'column';
+  gridAutoColumns?: GridTrack;
+  gridAutoRows?: GridTrack;
+  justifyItems?: GridAlignment;
+
+  // Grid item
+  gridColumn?: GridPlacement;
+  gridRow?: GridPlacement;
+  gridArea?: string; // named area from the container's grid-template-areas
+  justifySelf?: GridAlignment;
+
+  // Lengths using %, vw or vh, resolved by the plugin once the parent size is known
+  lengths?: Partial<Record<DeferredLengthField, CssLength>>;
+}
+
+// Style fields that can hold a deferred length
+export type DeferredLengthField =
+  | 'width' | 'height' | 'minWidth' | 'maxWidth' | 'minHeight' | 'maxHeight'
+  | 'paddingTop' | 'paddingRight' | 'paddingBottom' | 'paddingLeft'
+  | 'marginTop' | 'marginRight' | 'marginBottom' | 'marginLeft'
+  | 'top' | 'right' | 'bottom' | 'left'
+  | 'gap' | 'rowGap' | 'columnGap';
+
+// A CSS length that depends on layout context
+// Linear lengths sum their terms (px + percent% + vw + vh); functions combine other lengths
+export type CssLength = LinearLength | CssLengthFunction;
+
+export interface LinearLength {
+  px: number;
+  percent?: number;
+  vw?: number;
+  vh?: number;
+}
+
+export interface CssLengthFunction {
+  fn: 'min' | 'max' | 'clamp' | 'sum';
+  args: CssLength[];
+  scale?: number; // multiplies the function result (default 1)
+}
+
+// CSS Grid track size
+// FIXED: px, FLEX: fr, HUG: auto/min-content/max-content/fit-content(), PERCENT: % of the container
+export interface GridTrack {
+  type: 'FIXED' | 'FLEX' | 'HUG' | 'PERCENT';
+  value?: number;
+  min?: number; // px minimum from minmax()
 }
 
+export interface GridTemplate {
+  tracks: GridTrack[];
+  // repeat(auto-fill | auto-fit, ...) tracks, inserted before tracks[index]
+  autoRepeat?: {
+    mode: 'auto-fill' | 'auto-fit';
+    tracks: GridTrack[];
+    index: number;
+  };
+}
+
+// grid-row / grid-column: 1-based line numbers (negative counts from the end) or a span
+export interface GridPlacement {
+  start?: number;
+  end?: number;
+  span?: number;
+}
+
+export type GridAlignment = 'start' | 'end' | 'center' | 'stretch';
+
 export interface RGBA {
   r: number;
   g: number;
@@ -253,10 +350,119 @@ export interface RadialGradient {
   stops: GradientStop[];
 }
 
+// Design tokens (CSS custom properties) mapped to Figma Variables
+export interface DesignTokenAlias {
+  alias: string; // name of the referenced token
+}
+
+export interface DesignToken {
+  name: string; // custom property name without the leading '--'
+  type: 'COLOR' | 'FLOAT';
+  values: Record<string, RGBA | number | DesignTokenAlias>; // value per mode name
+}
+
+export interface DesignTokens {
+  modes: string[]; // first mode is the default (plain :root values)
+  tokens: DesignToken[];
+}
+
+// ParsedStyle fields that can be bound to a Figma Variable
+export type TokenBindableField =
+  | 'color'
+  | 'backgroundColor'
+  | 'borderColor'
+  | 'rowGap'
+  | 'columnGap'
+  | 'paddingTop'
+  | 'paddingRight'
+  | 'paddingBottom'
+  | 'paddingLeft'
+  | 'borderTopLeftRadius'
+  | 'borderTopRightRadius'
+  | 'borderBottomRightRadius'
+  | 'borderBottomLeftRadius';
+
+// Token name each style value was resolved from
+export type TokenBindings = Partial<Record<TokenBindableField, string>>;
+
+// Viewport size in CSS px (root frame size and containing block for %, vw and vh)
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+// Elements parsed with @media queries evaluated for one viewport
+export interface ParsedBreakpoint {
+  viewport: Viewport;
+  elements: ParsedElement[];
+  root?: ParsedRootStyle;
+}
+
+// One screen of a multi-screen document, rendered as its own root frame
+export interface ParsedScreen {
+  name: string;
+  elements: ParsedElement[];
+}
+
+export interface ParsedDocument {
+  elements: ParsedElement[];
+  // Style of <html> and <body> for the root frame (full documents only)
+  root?: ParsedRootStyle;
+  // <title> and <meta name="description">
+  title?: string;
+  description?: string;
+  designTokens?: DesignTokens;
+  // Only set when a viewport was requested or the HTML declares a fixed viewport width
+  viewport?: Viewport;
+  source: RenderSource;
+}
+
+// Computed box and background of the document body, applied to the root frame
+export interface ParsedRootStyle {
+  styles: ParsedStyle;
+  tokens?: TokenBindings;
+  tokenMode?: string;
+}
+
+// What a root node was rendered from (kept in its pluginData)
+export interface RenderSource {
+  html: string;
+  parserVersion: string;
+}
+
+// Style fields that can vary within one text node
+export type TextRunStyle = Pick<ParsedStyle,
+  'color' | 'fontFamily' | 'fontSize' | 'fontWeight' | 'fontStyle' | 'textDecoration' | 'letterSpacing' | 'textTransform'>;
+
+// A range of inline text with its computed style
+export interface TextRun {
+  text: string;
+  styles: TextRunStyle;
+  // Link target of an enclosing <a href>
+  href?: string;
+  // data-navigate and data-overlay of an enclosing element (screen names or back/close)
+  navigate?: string;
+  overlay?: string;
+  // Prototype link resolved from href, navigate or overlay between screens
+  link?: PrototypeLink;
+}
+
 export interface ParsedElement {
   tagName: string;
+  // Stable identity for in-place updates: data-key, #id, or the tag path (e.g. "div[1]/p[2]")
+  key?: string;
+  // Position in the source document, e.g. "div[1]/p[2]"
+  path?: string;
+  // The author's CSS that applied to the element, as declared (e.g. "width: 100px; gap: var(--gap)")
+  declaredStyle?: string;
   styles: ParsedStyle;
+  // Tokens behind resolved style values (for Figma Variable binding)
+  tokens?: TokenBindings;
+  // Variable mode for this subtree (from a data-theme attribute)
+  tokenMode?: string;
   textContent?: string;
+  // Styled ranges of textContent when it mixes inline elements (<b>, <em>, <a> ...)
+  textRuns?: TextRun[];
   attributes: Record<string, string>;
   children: ParsedElement[];
   // Image data for <img> elements (Base64 encoded without data URL prefix)
@@ -266,16 +472,118 @@ export interface ParsedElement {
   // Original image dimensions
   imageWidth?: number;
   imageHeight?: number;
+  // Markup of an inline <svg> or an SVG <img> source (plugin creates vectors with createNodeFromSvg)
+  svg?: string;
+  // Interactive element re-rendered per state its :hover/:active/:focus/:disabled rules change
+  states?: ParsedStateVariant[];
+  // Prototype action of a link or button between screens (layout "screens")
+  link?: PrototypeLink;
+}
+
+// Navigate to or open a screen as an overlay, go back, or close the overlay
+export interface PrototypeLink {
+  action: 'navigate' | 'overlay' | 'back' | 'close';
+  // Destination index in the screens list (navigate and overlay)
+  screen?: number;
+}
+
+// Interaction state variants, in component set order after Default
+export type InteractionStateName = 'Hover' | 'Pressed' | 'Focused' | 'Disabled';
+
+export interface ParsedStateVariant {
+  state: InteractionStateName;
+  element: ParsedElement;
+}
+
+// One variant of a component set: its variant property values and rendering
+export interface ParsedVariant {
+  properties: Record<string, string>; // e.g. { State: 'Hover', Size: 'Large' }
+  elements: ParsedElement[];
+  root?: ParsedRootStyle;
+  viewport?: Viewport;
+  source?: RenderSource;
 }
 
 // Component creation result
-export interface ComponentCreationResult {
+// Node type create_component_from_html builds: one component per rendering (default),
+// plain frames, or one component set with a variant per rendering
+export type OutputMode = 'component' | 'frame' | 'component-set';
+
+export interface CreatedFrame {
   nodeId: string;
   name: string;
+  type: 'COMPONENT' | 'COMPONENT_SET' | 'FRAME';
+  width: number;
+  height: number;
+  // Component (set) key for importing it from a published library
+  key?: string;
+  // Nodes created for the source elements (see ResultDetail)
+  elements?: ElementNodeMapping[];
+}
+
+// How many source elements a creation result maps to their nodes: none ('root'),
+// elements with an id or data-name attribute ('named'), or every element ('all')
+export type ResultDetail = 'root' | 'named' | 'all';
+
+// A source element and the Figma node rendered for it
+export interface ElementNodeMapping {
+  // Position in the source document, e.g. "div[1]/p[2]"
+  path: string;
+  // id attribute
+  id?: string;
+  // data-name attribute
+  name?: string;
+  nodeId: string;
+  type: string;
   width: number;
   height: number;
 }
 
+// A font the HTML asked for that Figma rendered with another installed font
+export interface FontSubstitution {
+  fontFamily: string[];
+  fontWeight: number;
+  italic: boolean;
+  used: { family: string; style: string };
+  reason: 'family-unavailable' | 'style-unavailable' | 'load-failed';
+}
+
+export interface ComponentCreationResult extends CreatedFrame {
+  // Every created frame when breakpoints or screens were rendered
+  frames?: CreatedFrame[];
+  // Fonts that were not installed (or lacked the weight/style) and what was used instead
+  fontSubstitutions?: FontSubstitution[];
+  // State component sets built for interactive elements (placed below the created nodes)
+  stateComponents?: CreatedFrame[];
+  // Section wrapping the created nodes (section input)
+  section?: { nodeId: string; name: string };
+  // Prototype reactions added for links between screens
+  prototypeLinks?: number;
+}
+
+// One change update_component_from_html made (added and removed count whole subtrees)
+export interface NodeChange {
+  change: 'added' | 'removed' | 'modified' | 'moved';
+  nodeId: string;
+  name: string;
+  key?: string;
+  // Properties patched on a modified node
+  properties?: string[];
+}
+
+export interface UpdateChangeSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  moved: number;
+  unchanged: number;
+  nodes: NodeChange[];
+}
+
+export interface ComponentUpdateResult extends ComponentCreationResult {
+  changes: UpdateChangeSummary;
+}
+
 // Plugin status
 export interface PluginStatus {
   connected: boolean;